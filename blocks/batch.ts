@@ -0,0 +1,300 @@
+import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+import { randomUUID } from "node:crypto";
+import { withLock } from "./lock.ts";
+
+const BATCH_PREFIX = "batch:";
+const itemPrefix = (batchId: string) => `item:${batchId}:`;
+
+// Adding to and taking a group's batch happen under the group's lock, so
+// neither concurrent first items nor a flush can leave items behind.
+const lockKey = (groupKey: string) => `lock:${groupKey}`;
+
+type Batch = { batchId: string; startedAt: number; lastEventId: string };
+
+// Removes the batch of a group with all its items, oldest first. When a
+// batch ID is given, only that batch is taken, so timers of earlier batches
+// are ignored. Must be called while holding the group's lock.
+const takeBatch = async (
+  groupKey: string,
+  expected?: { batchId: string; eventId?: string },
+) => {
+  const batchKey = `${BATCH_PREFIX}${groupKey}`;
+  const { value: batch } = await kv.block.get(batchKey);
+
+  if (
+    !batch ||
+    (expected && batch.batchId !== expected.batchId) ||
+    (expected?.eventId && batch.lastEventId !== expected.eventId)
+  ) {
+    return null;
+  }
+
+  const { pairs } = await kv.block.list({
+    keyPrefix: itemPrefix(batch.batchId),
+  });
+  const items = pairs
+    .map(({ value }) => value)
+    .filter(Boolean)
+    .sort((a, b) => a.addedAt - b.addedAt);
+
+  await kv.block.delete([batchKey, ...pairs.map(({ key }) => key)]);
+
+  return { batch: batch as Batch, items };
+};
+
+// Emits all items taken from a group's batch as a single event.
+const emitBatch = async (
+  groupKey: string,
+  reason: "count" | "window" | "flush",
+  taken: Awaited<ReturnType<typeof takeBatch>>,
+  flushEventId?: string,
+) => {
+  if (!taken || taken.items.length === 0) {
+    return;
+  }
+
+  const { batch, items } = taken;
+  const [first, ...rest] = items;
+
+  await events.emit(
+    {
+      groupKey,
+      items: items.map(({ value }) => value),
+      count: items.length,
+      startedAt: batch.startedAt,
+      reason,
+    },
+    {
+      parentEventId: first.eventId,
+      secondaryParentEventIds: [
+        ...rest.map(({ eventId }) => eventId),
+        ...(flushEventId ? [flushEventId] : []),
+      ],
+    },
+  );
+};
+
+const flushBatch = async (
+  groupKey: string,
+  reason: "count" | "window" | "flush",
+  expected?: { batchId: string; eventId?: string },
+  flushEventId?: string,
+) => {
+  const taken = await withLock(lockKey(groupKey), randomUUID(), () =>
+    takeBatch(groupKey, expected),
+  );
+
+  await emitBatch(groupKey, reason, taken, flushEventId);
+};
+
+const batch: AppBlock = {
+  name: "Batch",
+  category: "Transform",
+  description:
+    "Collects events into groups and emits each group as a single event with an array of items.\n\n" +
+    "How it works:\n" +
+    "- Each event adds one item to the current batch of its group\n" +
+    "- The batch is emitted and a new one started when it is flushed\n\n" +
+    "Flush triggers:\n" +
+    "- Count: The batch reached the configured number of items\n" +
+    "- Window: The time window of the batch closed\n" +
+    "- Manual: An event arrived on the `flush` input\n\n" +
+    "Windows:\n" +
+    "- Tumbling: Fixed window starting with the first item of the batch\n" +
+    "- Sliding: Window restarts with every item, so the batch is emitted " +
+    "once items stop arriving\n\n" +
+    "Common uses:\n" +
+    "- Send one digest notification instead of forty\n" +
+    "- Bulk-insert records instead of writing them one at a time\n" +
+    "- Group alerts per service before paging someone",
+  config: {
+    maxItems: {
+      name: "Maximum items",
+      description:
+        "Flush the batch as soon as it holds this many items. Leave empty for no limit.",
+      type: "number",
+      required: false,
+    },
+    windowSeconds: {
+      name: "Window (seconds)",
+      description:
+        "Flush the batch once its time window closes. Leave empty to only " +
+        "flush on item count or manually.",
+      type: "number",
+      required: false,
+    },
+    windowType: {
+      name: "Window type",
+      description:
+        "How the time window is measured.\n\n" +
+        "- `tumbling`: Starts with the first item of the batch and doesn't move\n" +
+        "- `sliding`: Restarts with every item added to the batch",
+      type: { type: "string", enum: ["tumbling", "sliding"] },
+      required: false,
+      default: "tumbling",
+    },
+  },
+  inputs: {
+    default: {
+      name: "Add",
+      description: "Adds an item to the current batch of its group.",
+      config: {
+        item: {
+          name: "Item",
+          description:
+            "The data to collect - becomes one element of the `items` array in the emitted batch.",
+          type: "any",
+          required: true,
+        },
+        groupKey: {
+          name: "Group key",
+          description:
+            "Items with different group keys are collected into separate batches, " +
+            "e.g. one digest per channel. Leave empty to collect everything together.",
+          type: "string",
+          required: false,
+          default: "",
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { item, groupKey = "" } = event.inputConfig;
+        const { maxItems, windowSeconds, windowType } = block.config;
+        const sliding = windowType === "sliding";
+        const batchKey = `${BATCH_PREFIX}${groupKey}`;
+        const now = Date.now();
+
+        const full = await withLock(lockKey(groupKey), event.id, async () => {
+          const { value } = await kv.block.get(batchKey);
+          let current: Batch = value;
+
+          if (!current) {
+            current = {
+              batchId: event.id,
+              startedAt: now,
+              lastEventId: event.id,
+            };
+
+            if (windowSeconds > 0 && !sliding) {
+              await timers.set(windowSeconds, {
+                description: `Close batch window for group: ${groupKey}`,
+                inputPayload: { groupKey, batchId: current.batchId },
+              });
+            }
+          }
+
+          current = { ...current, lastEventId: event.id };
+
+          await kv.block.setMany([
+            { key: batchKey, value: current },
+            {
+              key: `${itemPrefix(current.batchId)}${event.id}`,
+              value: { value: item, eventId: event.id, addedAt: now },
+            },
+          ]);
+
+          // A sliding window closes once no item was added for its duration.
+          // Timers of earlier items are ignored, as they no longer match.
+          if (windowSeconds > 0 && sliding) {
+            await timers.set(windowSeconds, {
+              description: `Close batch window for group: ${groupKey}`,
+              inputPayload: {
+                groupKey,
+                batchId: current.batchId,
+                eventId: event.id,
+              },
+            });
+          }
+
+          if (!(maxItems > 0)) {
+            return null;
+          }
+
+          const { pairs } = await kv.block.list({
+            keyPrefix: itemPrefix(current.batchId),
+          });
+
+          return pairs.length >= maxItems ? takeBatch(groupKey) : null;
+        });
+
+        await emitBatch(groupKey, "count", full);
+      },
+    },
+    flush: {
+      name: "Flush",
+      description:
+        "Emits the current batch right away, even if it isn't full and its window hasn't closed.",
+      config: {
+        groupKey: {
+          name: "Group key",
+          description:
+            "The group to flush. Leave empty to flush the batches of all groups.",
+          type: "string",
+          required: false,
+        },
+      },
+      onEvent: async ({ event }) => {
+        const { groupKey } = event.inputConfig;
+
+        if (groupKey) {
+          await flushBatch(groupKey, "flush", undefined, event.id);
+          return;
+        }
+
+        const { pairs } = await kv.block.list({ keyPrefix: BATCH_PREFIX });
+
+        await Promise.all(
+          pairs.map(({ key }) =>
+            flushBatch(
+              key.slice(BATCH_PREFIX.length),
+              "flush",
+              undefined,
+              event.id,
+            ),
+          ),
+        );
+      },
+    },
+  },
+  onTimer: async ({ timer: { payload } }) => {
+    const { groupKey, batchId, eventId } = payload;
+
+    await flushBatch(groupKey, "window", { batchId, eventId });
+  },
+  outputs: {
+    default: {
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          groupKey: {
+            type: "string",
+            description: "The group the items were collected for.",
+          },
+          items: {
+            type: "array",
+            description: "The collected items, in the order they were added.",
+          },
+          count: {
+            type: "number",
+            description: "Number of items in the batch.",
+          },
+          startedAt: {
+            type: "number",
+            description:
+              "When the first item of the batch was added (Unix milliseconds).",
+          },
+          reason: {
+            type: "string",
+            enum: ["count", "window", "flush"],
+            description:
+              "What triggered the batch: reaching the maximum item count, the " +
+              "window closing, or the `flush` input.",
+          },
+        },
+        required: ["groupKey", "items", "count", "startedAt", "reason"],
+      },
+    },
+  },
+};
+
+export default batch;
@@ -4,6 +4,66 @@ const KV_KEYS = {
   VALUE: "value",
   EXPIRES_AT: "expiresAt",
   EVENT_ID: "eventId",
+  HISTORY: "history",
+};
+
+type Reducer = "latest" | "sum" | "count" | "min" | "max" | "append";
+
+// Strings are accepted if they hold nothing but a number, so that values
+// like `null`, `true` or `""` don't count as 0 or 1.
+const NUMERIC_STRING = /^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+const toNumber = (value: unknown): number | null => {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && NUMERIC_STRING.test(value)
+        ? Number(value)
+        : NaN;
+
+  return Number.isFinite(number) ? number : null;
+};
+
+// Combines a newly captured value with the current one. `current` is
+// undefined when nothing has been captured since the last reset.
+const reduce = (
+  reducer: Reducer,
+  current: any,
+  value: any,
+  historySize?: number,
+) => {
+  const number = toNumber(value);
+
+  // A value that isn't a number is left out and the current result is kept,
+  // rather than turning it into NaN for good.
+  if (
+    (reducer === "sum" || reducer === "min" || reducer === "max") &&
+    number === null
+  ) {
+    console.warn(`Ignoring non-numeric value for the ${reducer} reducer`);
+
+    if (typeof current === "number") {
+      return current;
+    }
+    return reducer === "sum" ? 0 : null;
+  }
+
+  switch (reducer) {
+    case "sum":
+      return (typeof current === "number" ? current : 0) + number!;
+    case "count":
+      return (typeof current === "number" ? current : 0) + 1;
+    case "min":
+      return typeof current === "number" ? Math.min(current, number!) : number;
+    case "max":
+      return typeof current === "number" ? Math.max(current, number!) : number;
+    case "append": {
+      const list = [...(Array.isArray(current) ? current : []), value];
+      return historySize && historySize > 0 ? list.slice(-historySize) : list;
+    }
+    default:
+      return value;
+  }
 };
 
 const capture: AppBlock = {
@@ -25,6 +85,33 @@ const capture: AppBlock = {
       required: false,
       default: {},
     },
+    reducer: {
+      name: "Reducer",
+      description:
+        "How a captured value is combined with the current one.\n\n" +
+        "- `latest`: Replace the current value (default)\n" +
+        "- `sum`: Add the captured number to a running total\n" +
+        "- `count`: Count the captured events, ignoring their values\n" +
+        "- `min` / `max`: Keep the smallest or largest captured number\n" +
+        "- `append`: Collect captured values in a list, limited to the history size if set\n\n" +
+        "`sum`, `min` and `max` ignore values that aren't numbers. " +
+        "Reducers start over from scratch when the value expires.",
+      type: {
+        type: "string",
+        enum: ["latest", "sum", "count", "min", "max", "append"],
+      },
+      required: false,
+      default: "latest",
+    },
+    historySize: {
+      name: "History size",
+      description:
+        "Number of recently captured values to keep in the `history` signal, " +
+        "together with when and by which event they were captured.\n\n" +
+        "Useful for dashboards that show recent activity. Leave empty to keep no history.",
+      type: "number",
+      required: false,
+    },
   },
   inputs: {
     default: {
@@ -58,13 +145,15 @@ const capture: AppBlock = {
       onEvent: async (input) => {
         try {
           const { value, timeoutSeconds } = input.event.inputConfig;
+          const { reducer = "latest", historySize } = input.block.config;
           const eventId = input.event.id;
+          const now = Date.now();
           let expiresAt: number | null = null;
 
           // Handle timeout if provided
           if (timeoutSeconds !== undefined && timeoutSeconds > 0) {
             // Calculate expiration time
-            expiresAt = Date.now() + timeoutSeconds * 1000;
+            expiresAt = now + timeoutSeconds * 1000;
 
             // Set a new timer to reset value when timeout expires
             await timers.set(timeoutSeconds, {
@@ -73,11 +162,43 @@ const capture: AppBlock = {
             });
           }
 
-          // Store the value, expiration time, and event ID in KV store
+          const [
+            { value: current },
+            { value: currentExpiresAt },
+            { value: currentEventId },
+            { value: history },
+          ] = await kv.block.getMany([
+            KV_KEYS.VALUE,
+            KV_KEYS.EXPIRES_AT,
+            KV_KEYS.EVENT_ID,
+            KV_KEYS.HISTORY,
+          ]);
+
+          // Without an event ID the current value is the default one
+          const captured =
+            currentEventId && !(currentExpiresAt && now > currentExpiresAt);
+          const reduced = reduce(
+            reducer,
+            captured ? current : undefined,
+            value,
+            historySize,
+          );
+
+          // Keep the most recent values only
+          const newHistory =
+            historySize > 0
+              ? [
+                  ...(history ?? []),
+                  { value, updatedAt: now, updatedBy: eventId },
+                ].slice(-historySize)
+              : null;
+
+          // Store the value, expiration time, event ID and history in KV store
           await kv.block.setMany([
-            { key: KV_KEYS.VALUE, value },
+            { key: KV_KEYS.VALUE, value: reduced },
             { key: KV_KEYS.EXPIRES_AT, value: expiresAt },
             { key: KV_KEYS.EVENT_ID, value: eventId },
+            { key: KV_KEYS.HISTORY, value: newHistory },
           ]);
 
           // Trigger sync to update lifecycle signals
@@ -93,13 +214,18 @@ const capture: AppBlock = {
       const now = Date.now();
       const defaultValue = input.block.config.defaultValue;
 
-      // Retrieve the captured value, expiration time, and event ID from KV store
-      const [{ value }, { value: expiresAt }, { value: eventId }] =
-        await kv.block.getMany([
-          KV_KEYS.VALUE,
-          KV_KEYS.EXPIRES_AT,
-          KV_KEYS.EVENT_ID,
-        ]);
+      // Retrieve the captured value, expiration time, event ID and history from KV store
+      const [
+        { value },
+        { value: expiresAt },
+        { value: eventId },
+        { value: history },
+      ] = await kv.block.getMany([
+        KV_KEYS.VALUE,
+        KV_KEYS.EXPIRES_AT,
+        KV_KEYS.EVENT_ID,
+        KV_KEYS.HISTORY,
+      ]);
 
       // Helper function to create consistent export updates
       const createExportUpdates = (
@@ -111,6 +237,7 @@ const capture: AppBlock = {
         updatedAt: now,
         expiresAt,
         updatedBy: eventId || "expiration",
+        history: history ?? [],
       });
 
       // Handle expired value
@@ -128,8 +255,8 @@ const capture: AppBlock = {
         };
       }
 
-      // Handle no value case
-      if (!value) {
+      // Handle no value case, falsy values like 0 are still captured values
+      if (value === undefined || value === null) {
         return {
           signalUpdates: createExportUpdates(defaultValue, null, null),
           newStatus: "ready",
@@ -150,6 +277,7 @@ const capture: AppBlock = {
           updatedAt: null,
           expiresAt: null,
           updatedBy: null,
+          history: [],
         },
       };
     }
@@ -224,6 +352,16 @@ const capture: AppBlock = {
         "- Building time-based state machines\n" +
         "- Debugging timeout behavior",
     },
+    history: {
+      name: "History",
+      description:
+        "The most recently captured values, oldest first, each with `value`, " +
+        "`updatedAt` and `updatedBy` (empty unless a history size is set).\n\n" +
+        "Useful for:\n" +
+        "- Showing recent activity on dashboards\n" +
+        "- Spotting trends without a separate store\n" +
+        "- Debugging which events changed the signal",
+    },
   },
 };
 
@@ -0,0 +1,299 @@
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
+import { randomUUID } from "node:crypto";
+import { withLock } from "./lock.ts";
+
+const COUNTER_KEY = "counter";
+const LOCK_KEY = "lock";
+
+type CounterConfig = {
+  initialValue?: number;
+  min?: number;
+  max?: number;
+  thresholds?: number[];
+  resetMode?: "none" | "idle" | "interval";
+  resetSeconds?: number;
+};
+
+const clamp = (count: number, { min, max }: CounterConfig) => {
+  if (typeof min === "number" && count < min) {
+    return min;
+  }
+  if (typeof max === "number" && count > max) {
+    return max;
+  }
+  return count;
+};
+
+// Applies a change to the count, arms the auto-reset timer and emits an event
+// for every threshold the count moved across.
+const updateCount = async (
+  config: CounterConfig,
+  change: (count: number) => number,
+  options: { eventId?: string; reset?: boolean } = {},
+) => {
+  const lockId = options.eventId ?? randomUUID();
+  const { resetMode = "none", resetSeconds } = config;
+  const autoReset = resetMode !== "none" && resetSeconds! > 0 && !options.reset;
+
+  const { previous, count } = await withLock(LOCK_KEY, lockId, async () => {
+    const { value: state } = await kv.block.get(COUNTER_KEY);
+    const now = Date.now();
+    const previous: number = state?.count ?? config.initialValue ?? 0;
+    const count = clamp(change(previous), config);
+
+    // Intervals start with the first change after a reset and don't move.
+    let resetAt: number | null = options.reset
+      ? null
+      : (state?.resetAt ?? null);
+
+    if (autoReset && resetMode === "idle") {
+      await timers.set(resetSeconds!, {
+        description: "Reset counter after inactivity",
+        inputPayload: { updatedBy: lockId },
+      });
+    } else if (autoReset && resetMode === "interval" && !resetAt) {
+      resetAt = now + resetSeconds! * 1000;
+      await timers.set(resetSeconds!, {
+        description: "Reset counter at the end of the interval",
+        inputPayload: { resetAt },
+      });
+    }
+
+    await kv.block.set({
+      key: COUNTER_KEY,
+      value: { count, updatedAt: now, updatedBy: lockId, resetAt },
+    });
+
+    return { previous, count };
+  });
+
+  for (const threshold of config.thresholds ?? []) {
+    const direction =
+      previous < threshold && count >= threshold
+        ? "up"
+        : previous >= threshold && count < threshold
+          ? "down"
+          : null;
+
+    if (direction) {
+      await events.emit(
+        { threshold, direction, count, previous },
+        { parentEventId: options.eventId },
+      );
+    }
+  }
+
+  await lifecycle.sync();
+};
+
+const counter: AppBlock = {
+  name: "Counter",
+  category: "Data",
+  description:
+    "Keeps a number that events can atomically increment, decrement, set or reset.\n\n" +
+    "How it works:\n" +
+    "- Every change is applied while holding a lock, so concurrent events never get lost\n" +
+    "- Optional bounds keep the count within a range\n" +
+    "- An event is emitted every time the count crosses one of the thresholds\n" +
+    "- The count can reset itself after a period of inactivity or at a fixed interval\n\n" +
+    "vs Capture: Capture replaces its value with every event, Counter " +
+    "changes it relative to the current count.\n\n" +
+    "Common uses:\n" +
+    "- Count failures and alert once a limit is reached\n" +
+    "- Track how many runs are in progress\n" +
+    "- Per-hour quotas that reset automatically",
+  config: {
+    initialValue: {
+      name: "Initial value",
+      description: "The count before any changes, and the value it resets to.",
+      type: "number",
+      required: false,
+      default: 0,
+    },
+    min: {
+      name: "Minimum",
+      description:
+        "Lowest value the count can take, changes below it stop at the minimum. " +
+        "Leave empty for no lower bound.",
+      type: "number",
+      required: false,
+    },
+    max: {
+      name: "Maximum",
+      description:
+        "Highest value the count can take, changes above it stop at the maximum. " +
+        "Leave empty for no upper bound.",
+      type: "number",
+      required: false,
+    },
+    thresholds: {
+      name: "Thresholds",
+      description:
+        "Values to watch, e.g. `[10, 100]`. An event is emitted when the count " +
+        "reaches a threshold from below, or drops below it again.",
+      type: { type: "array", items: { type: "number" } },
+      required: false,
+    },
+    resetMode: {
+      name: "Auto-reset",
+      description:
+        "When to reset the count to the initial value automatically.\n\n" +
+        "- `none`: Only reset on the `reset` input\n" +
+        "- `idle`: Reset once the count hasn't changed for the reset period\n" +
+        "- `interval`: Reset one reset period after the first change since the last reset",
+      type: { type: "string", enum: ["none", "idle", "interval"] },
+      required: false,
+      default: "none",
+    },
+    resetSeconds: {
+      name: "Reset period (seconds)",
+      description: "The period used by the auto-reset mode.",
+      type: "number",
+      required: false,
+    },
+  },
+  inputs: {
+    default: {
+      name: "Increment",
+      description: "Adds to the count.",
+      config: {
+        amount: {
+          name: "Amount",
+          description: "How much to add.",
+          type: "number",
+          required: false,
+          default: 1,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { amount = 1 } = event.inputConfig;
+
+        await updateCount(block.config, (count) => count + amount, {
+          eventId: event.id,
+        });
+      },
+    },
+    decrement: {
+      name: "Decrement",
+      description: "Subtracts from the count.",
+      config: {
+        amount: {
+          name: "Amount",
+          description: "How much to subtract.",
+          type: "number",
+          required: false,
+          default: 1,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { amount = 1 } = event.inputConfig;
+
+        await updateCount(block.config, (count) => count - amount, {
+          eventId: event.id,
+        });
+      },
+    },
+    set: {
+      name: "Set",
+      description: "Replaces the count with the given value.",
+      config: {
+        value: {
+          name: "Value",
+          description: "The new count.",
+          type: "number",
+          required: true,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { value } = event.inputConfig;
+
+        await updateCount(block.config, () => value, { eventId: event.id });
+      },
+    },
+    reset: {
+      name: "Reset",
+      description: "Resets the count to the initial value.",
+      config: {},
+      onEvent: async ({ event, block }) => {
+        await updateCount(block.config, () => block.config.initialValue ?? 0, {
+          eventId: event.id,
+          reset: true,
+        });
+      },
+    },
+  },
+  onSync: async (input) => {
+    const { value: state } = await kv.block.get(COUNTER_KEY);
+
+    return {
+      newStatus: "ready",
+      signalUpdates: {
+        count: state?.count ?? input.block.config.initialValue ?? 0,
+        updatedAt: state?.updatedAt ?? null,
+      },
+    };
+  },
+  onTimer: async ({ timer: { payload }, block }) => {
+    const { updatedBy, resetAt } = payload;
+    const { value: state } = await kv.block.get(COUNTER_KEY);
+
+    // Skip timers of earlier changes, or of intervals that have been reset.
+    if (
+      !state ||
+      (updatedBy && state.updatedBy !== updatedBy) ||
+      (resetAt && state.resetAt !== resetAt)
+    ) {
+      return;
+    }
+
+    await updateCount(block.config, () => block.config.initialValue ?? 0, {
+      reset: true,
+    });
+  },
+  outputs: {
+    default: {
+      name: "Threshold crossed",
+      description:
+        "Emitted when the count reaches a threshold, or drops below it again.",
+      default: true,
+      possiblePrimaryParents: ["default", "decrement", "set", "reset"],
+      type: {
+        type: "object",
+        properties: {
+          threshold: {
+            type: "number",
+            description: "The threshold that was crossed.",
+          },
+          direction: {
+            type: "string",
+            enum: ["up", "down"],
+            description:
+              "`up` when the count reached the threshold, `down` when it dropped below it.",
+          },
+          count: {
+            type: "number",
+            description: "The count after the change.",
+          },
+          previous: {
+            type: "number",
+            description: "The count before the change.",
+          },
+        },
+        required: ["threshold", "direction", "count", "previous"],
+      },
+    },
+  },
+  signals: {
+    count: {
+      name: "Count",
+      description: "The current count.",
+    },
+    updatedAt: {
+      name: "Updated at",
+      description:
+        "When the count last changed (Unix milliseconds, null if it never did).",
+    },
+  },
+};
+
+export default counter;
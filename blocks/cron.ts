@@ -0,0 +1,218 @@
+// Minimal evaluator for standard 5-field cron expressions
+// (minute hour day-of-month month day-of-week), evaluated in a time zone.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted, and only the
+  // restricted one otherwise.
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = "JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC".split(
+  " ",
+);
+const DAY_NAMES = "SUN MON TUE WED THU FRI SAT".split(" ");
+
+// Longest each month can be, counting February of leap years.
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  // 7 is accepted as an alias for Sunday.
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, offset: 0 },
+];
+
+const parseField = (
+  source: string,
+  field: (typeof FIELDS)[number],
+): Set<number> => {
+  const values = new Set<number>();
+
+  const parseValue = (value: string) => {
+    const index = field.names?.indexOf(value.toUpperCase()) ?? -1;
+    const parsed = index >= 0 ? index + (field.offset ?? 0) : Number(value);
+
+    if (!Number.isInteger(parsed) || parsed < field.min || parsed > field.max) {
+      throw new Error(`Invalid ${field.name} in cron expression: ${value}`);
+    }
+
+    return parsed;
+  };
+
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron expression: ${part}`);
+    }
+
+    let [start, end] = [field.min, field.max];
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from);
+      // A single value with a step ("5/15") runs until the end of the range.
+      end = to !== undefined ? parseValue(to) : stepSource ? field.max : start;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid range in cron expression: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const parts = source.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields, got ${parts.length}: ${expression}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index]),
+  );
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const daysOfMonthRestricted = parts[2] !== "*";
+  const daysOfWeekRestricted = parts[4] !== "*";
+
+  // Only the day of month decides here, and it may fall outside of every
+  // allowed month, like `0 0 31 2 *`. Rejecting these up front spares
+  // searching years ahead for a run time that never comes.
+  const dayExists = [...months].some((month) =>
+    [...daysOfMonth].some((day) => day <= DAYS_IN_MONTH[month - 1]),
+  );
+  if (daysOfMonthRestricted && !daysOfWeekRestricted && !dayExists) {
+    throw new Error(`Cron expression never matches: ${expression}`);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted,
+    daysOfWeekRestricted,
+  };
+};
+
+// Throws a RangeError for unknown time zones.
+export const validateTimeZone = (timeZone: string) => {
+  new Intl.DateTimeFormat("en-US", { timeZone });
+};
+
+const wallClock = (formatter: Intl.DateTimeFormat, timestamp: number) => {
+  const parts = Object.fromEntries(
+    formatter.formatToParts(timestamp).map(({ type, value }) => [type, value]),
+  );
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    dayOfWeek: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+};
+
+// Creating a formatter is expensive, and catching up on missed ticks asks
+// for many run times in a row.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+// Allows for the rarest expressions, like "0 0 29 2 1", within a few years.
+const MAX_ITERATIONS = 200_000;
+
+// Returns the first time strictly after `after` (Unix milliseconds) that
+// matches the schedule in the given time zone.
+export const nextCronTime = (
+  schedule: CronSchedule,
+  after: number,
+  timeZone: string,
+): number => {
+  const formatter = formatterFor(timeZone);
+  let timestamp = Math.floor(after / 60_000) * 60_000 + 60_000;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const { month, day, dayOfWeek, hour, minute } = wallClock(
+      formatter,
+      timestamp,
+    );
+
+    const dayOfMonthMatches = schedule.daysOfMonth.has(day);
+    const dayOfWeekMatches = schedule.daysOfWeek.has(dayOfWeek);
+    const dayMatches =
+      schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted
+        ? dayOfMonthMatches || dayOfWeekMatches
+        : dayOfMonthMatches && dayOfWeekMatches;
+
+    // Skip to the next local hour rather than the next day, so that days
+    // shortened by a daylight saving change are not skipped over.
+    if (
+      !schedule.months.has(month) ||
+      !dayMatches ||
+      !schedule.hours.has(hour)
+    ) {
+      timestamp += (60 - minute) * 60_000;
+      continue;
+    }
+
+    if (!schedule.minutes.has(minute)) {
+      timestamp += 60_000;
+      continue;
+    }
+
+    return timestamp;
+  }
+
+  throw new Error("Cron expression has no upcoming run time");
+};
@@ -0,0 +1,203 @@
+import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+import { randomUUID } from "node:crypto";
+import { withLock } from "./lock.ts";
+
+const BURST_PREFIX = "burst:";
+
+// Held while a burst is read and written back, so that events arriving
+// together never open the same burst twice.
+const lockKey = (key: string) => `lock:${key}`;
+
+const debounce: AppBlock = {
+  name: "Debounce",
+  category: "Control",
+  description:
+    "Collapses bursts of events with the same key into a single event.\n\n" +
+    "How it works:\n" +
+    "- A burst starts with the first event for a key\n" +
+    "- Every further event for that key extends the burst\n" +
+    "- The burst ends once no event arrived for the quiet period, or when " +
+    "the maximum wait has passed since the burst started\n\n" +
+    "Edges:\n" +
+    "- Leading: Emit the first event of a burst right away, drop the rest\n" +
+    "- Trailing: Emit the last event of a burst once the burst ends\n" +
+    "- Both: Emit the first event right away, and the last one when the burst ends\n\n" +
+    "Throttling: Use the leading edge with a maximum wait equal to the quiet " +
+    "period to let through at most one event per period.\n\n" +
+    "Common uses:\n" +
+    "- Run a pipeline once per series of git pushes instead of once per push\n" +
+    "- Send one notification for a flapping alert\n" +
+    "- Save changes once the user stops typing",
+  config: {
+    edges: {
+      name: "Edges",
+      description:
+        "Which events of a burst are emitted.\n\n" +
+        "- `leading`: The first event, as soon as it arrives\n" +
+        "- `trailing`: The last event, once the burst ends\n" +
+        "- `both`: The first event right away and the last one when the burst " +
+        "ends (bursts of a single event are emitted only once)",
+      type: { type: "string", enum: ["leading", "trailing", "both"] },
+      required: true,
+      default: "trailing",
+    },
+  },
+  inputs: {
+    default: {
+      config: {
+        key: {
+          name: "Key",
+          description:
+            "Events with the same key are collapsed together, while bursts for " +
+            "different keys are tracked independently.\n\n" +
+            "Examples:\n" +
+            "- Per repository branch: `outputs.webhook.repository + ':' + outputs.webhook.branch`\n" +
+            "- Everything together: leave empty",
+          type: "string",
+          required: false,
+          default: "",
+        },
+        waitSeconds: {
+          name: "Quiet period (seconds)",
+          description:
+            "How long no event may arrive for the key before the burst ends.",
+          type: "number",
+          required: true,
+          default: 10,
+        },
+        maxWaitSeconds: {
+          name: "Maximum wait (seconds)",
+          description:
+            "Longest a burst may last, no matter how many events keep arriving. " +
+            "Leave empty to wait for a quiet period however long that takes.",
+          type: "number",
+          required: false,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { key = "", waitSeconds, maxWaitSeconds } = event.inputConfig;
+        const { edges } = block.config;
+        const stateKey = `${BURST_PREFIX}${key}`;
+
+        await withLock(lockKey(key), event.id, async () => {
+          const { value: burst } = await kv.block.get(stateKey);
+
+          if (burst) {
+            await kv.block.set({
+              key: stateKey,
+              value: {
+                ...burst,
+                lastEventId: event.id,
+                count: burst.count + 1,
+              },
+            });
+          } else {
+            const leading = edges !== "trailing";
+            const startedAt = Date.now();
+
+            await kv.block.set({
+              key: stateKey,
+              value: {
+                burstId: event.id,
+                startedAt,
+                lastEventId: event.id,
+                leadingEventId: leading ? event.id : null,
+                count: 1,
+              },
+            });
+
+            if (leading) {
+              await events.emit({ key, edge: "leading", count: 1, startedAt });
+            }
+
+            if (maxWaitSeconds && maxWaitSeconds > 0) {
+              await timers.set(maxWaitSeconds, {
+                description: `Maximum wait for debounce key: ${key}`,
+                inputPayload: { key, burstId: event.id },
+              });
+            }
+          }
+        });
+
+        // Every event restarts the quiet period. Timers of earlier events are
+        // ignored once they fire, as they no longer match the last event.
+        await timers.set(waitSeconds, {
+          description: `Quiet period for debounce key: ${key}`,
+          inputPayload: { key, eventId: event.id },
+        });
+      },
+    },
+  },
+  onTimer: async ({ timer: { payload }, block }) => {
+    const { key, eventId, burstId } = payload;
+    const stateKey = `${BURST_PREFIX}${key}`;
+
+    const burst = await withLock(lockKey(key), randomUUID(), async () => {
+      const { value: burst } = await kv.block.get(stateKey);
+
+      // Only end the burst if the timer belongs to its latest event (quiet
+      // period) or to the burst itself (maximum wait).
+      if (
+        !burst ||
+        (eventId && burst.lastEventId !== eventId) ||
+        (burstId && burst.burstId !== burstId)
+      ) {
+        return null;
+      }
+
+      await kv.block.delete([stateKey]);
+      return burst;
+    });
+
+    if (
+      !burst ||
+      block.config.edges === "leading" ||
+      burst.lastEventId === burst.leadingEventId
+    ) {
+      return;
+    }
+
+    await events.emit(
+      {
+        key,
+        edge: "trailing",
+        count: burst.count,
+        startedAt: burst.startedAt,
+      },
+      { parentEventId: burst.lastEventId },
+    );
+  },
+  outputs: {
+    default: {
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "The key of the burst the event belongs to.",
+          },
+          edge: {
+            type: "string",
+            enum: ["leading", "trailing"],
+            description:
+              "Whether this is the first event of a burst (`leading`) or the " +
+              "last one (`trailing`).",
+          },
+          count: {
+            type: "number",
+            description:
+              "How many events the burst contained at the time of emitting.",
+          },
+          startedAt: {
+            type: "number",
+            description: "When the burst started (Unix milliseconds).",
+          },
+        },
+        required: ["key", "edge", "count", "startedAt"],
+      },
+    },
+  },
+};
+
+export default debounce;
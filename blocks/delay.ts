@@ -0,0 +1,181 @@
+import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+
+const delayKey = (key: string) => `delay:${key}`;
+
+const delay: AppBlock = {
+  name: "Delay",
+  category: "Control",
+  description:
+    "Holds an event's payload for a while, then emits it unchanged.\n\n" +
+    "How it works:\n" +
+    "1. Delay: Send an event with the payload to hold → a pending event shows the wait\n" +
+    "2. Wait period: The payload is kept for a relative delay or until a given time\n" +
+    "3. Emit: The payload is emitted unchanged, with the original event as parent\n" +
+    "4. Optional cancel: Use the delay key to drop the payload before it is emitted\n\n" +
+    "vs Timeout: Timeout emits only timer details when it fires, Delay emits " +
+    "the data you gave it, so there's no need to combine it with Capture and refs.\n\n" +
+    "Common uses:\n" +
+    '- "Wait 10 minutes, then continue with this data"\n' +
+    "- Send a reminder at a given time\n" +
+    "- Give a system time to settle before checking on it\n" +
+    "- Grace periods that can be cancelled",
+  inputs: {
+    default: {
+      name: "Delay",
+      description:
+        "Holds the payload and emits it on the default output after the delay.\n\n" +
+        "Starting a delay with the key of a delay that is still waiting replaces it - " +
+        "the previous payload is never emitted.",
+      config: {
+        payload: {
+          name: "Payload",
+          description:
+            "The data to hold and emit after the delay, exactly as given.",
+          type: "any",
+          required: true,
+        },
+        seconds: {
+          name: "Delay (seconds)",
+          description:
+            "How long to hold the payload, counted from now. Ignored when " +
+            "`Delay until` is set.",
+          type: "number",
+          required: false,
+          default: 60,
+        },
+        until: {
+          name: "Delay until",
+          description:
+            "Point in time to emit the payload at, as a Unix milliseconds " +
+            "timestamp or an ISO 8601 date string. Times in the past emit right away.\n\n" +
+            "Leave empty to use the relative delay instead.",
+          type: "any",
+          required: false,
+        },
+        key: {
+          name: "Delay key",
+          description:
+            "Identifier used to cancel or replace this delay. Leave empty to " +
+            "use the ID of the incoming event.",
+          type: "string",
+          required: false,
+        },
+      },
+      onEvent: async ({ event }) => {
+        const { payload, seconds, until, key } = event.inputConfig;
+        const id = key || event.id;
+        const now = Date.now();
+
+        const hasUntil = until !== undefined && until !== null && until !== "";
+        const emitAt = hasUntil
+          ? new Date(until).getTime()
+          : now + seconds * 1000;
+
+        if (Number.isNaN(emitAt)) {
+          console.error("Invalid delay: set either a delay or a valid time");
+          return;
+        }
+
+        // Starting a delay with the same key replaces the previous one.
+        const { value: waiting } = await kv.block.get(delayKey(id));
+        if (waiting) {
+          await Promise.all([
+            timers.unset(waiting.timerId),
+            events.cancelPending(waiting.pendingEventId, "Delay replaced"),
+          ]);
+        }
+
+        const pendingEventId = await events.createPending({
+          statusDescription: `Delayed until ${new Date(emitAt).toISOString()}`,
+        });
+
+        const timerId = await timers.set(Math.max(0, (emitAt - now) / 1000), {
+          inputPayload: { key: id, emitAt },
+          pendingEventId,
+        });
+
+        await kv.block.set({
+          key: delayKey(id),
+          value: {
+            pendingEventId,
+            timerId,
+            eventId: event.id,
+            payload,
+            emitAt,
+          },
+        });
+      },
+    },
+
+    cancel: {
+      name: "Cancel delay",
+      description:
+        "Drops a waiting payload so it is never emitted.\n\n" +
+        "Cancelling a delay that already emitted, or doesn't exist, does nothing.",
+      config: {
+        key: {
+          name: "Delay key",
+          description:
+            "Key the delay was started with, or the ID of the event that started it.",
+          type: "string",
+          required: true,
+        },
+      },
+      onEvent: async ({ event }) => {
+        const { key } = event.inputConfig;
+        const { value } = await kv.block.get(delayKey(key));
+
+        if (!value) {
+          return;
+        }
+
+        await Promise.all([
+          timers.unset(value.timerId),
+          events.cancelPending(value.pendingEventId, "Delay cancelled"),
+          kv.block.delete([delayKey(key)]),
+        ]);
+      },
+    },
+  },
+
+  onTimer: async ({ timer: { payload } }) => {
+    const { key, emitAt } = payload;
+    const { value } = await kv.block.get(delayKey(key));
+
+    // Skip delays that have been cancelled or replaced since.
+    if (!value || value.emitAt !== emitAt) {
+      return;
+    }
+
+    await Promise.all([
+      events.emit(
+        { payload: value.payload },
+        { complete: value.pendingEventId, parentEventId: value.eventId },
+      ),
+      kv.block.delete([delayKey(key)]),
+    ]);
+  },
+
+  outputs: {
+    default: {
+      default: true,
+      name: "Delayed",
+      description:
+        "**The held payload**, emitted once the delay is over, with the event that started the delay as its parent.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          payload: {
+            type: "any",
+            description:
+              "**The payload** given when the delay was started, unchanged.",
+          },
+        },
+        required: ["payload"],
+      },
+    },
+  },
+};
+
+export default delay;
@@ -1,27 +1,47 @@
+import batch from "./batch.ts";
 import capture from "./capture.ts";
+import counter from "./counter.ts";
+import debounce from "./debounce.ts";
 import deduplicate from "./deduplicate.ts";
+import delay from "./delay.ts";
 import display from "./display.ts";
 import encryptionKey from "./encryptionKey.ts";
 import htmlToMarkdown from "./htmlToMarkdown.ts";
+import join from "./join.ts";
 import merge from "./merge.ts";
 import mutex from "./mutex.ts";
 import observe from "./observe.ts";
+import rateLimiter from "./rateLimiter.ts";
+import schedule from "./schedule.ts";
+import semaphore from "./semaphore.ts";
 import stage from "./stage.ts";
+import store from "./store.ts";
 import subroutineCall from "./subroutineCall.ts";
 import subroutineDefinition from "./subroutineDefinition.ts";
+import subroutineMap from "./subroutineMap.ts";
 import timeout from "./timeout.ts";
 
 export const blocks = {
+  batch,
   capture,
+  counter,
+  debounce,
   deduplicate,
+  delay,
   display,
   encryptionKey,
   htmlToMarkdown,
+  join,
   merge,
   mutex,
   observe,
+  rateLimiter,
+  schedule,
+  semaphore,
   stage,
+  store,
   subroutineCall,
   subroutineDefinition,
+  subroutineMap,
   timeout,
 };
@@ -0,0 +1,283 @@
+import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+import { randomUUID } from "node:crypto";
+import { withLock } from "./lock.ts";
+
+const roundKey = (matchingKey: string) => `join:round:${matchingKey}`;
+const arrivalPrefix = (matchingKey: string) => `join:arrival:${matchingKey}:`;
+
+// Held while a key's round is started, added to or joined, so that streams
+// arriving together neither start two rounds nor emit the join twice.
+const lockKey = (matchingKey: string) => `join:lock:${matchingKey}`;
+
+const listArrivals = async (matchingKey: string, streams: string[]) => {
+  const { pairs } = await kv.block.list({
+    keyPrefix: arrivalPrefix(matchingKey),
+  });
+
+  // Keys containing the separator may share a prefix with other keys, so
+  // only keep arrivals that were stored for exactly this key.
+  return pairs.filter(
+    ({ value }) =>
+      value &&
+      value.matchingKey === matchingKey &&
+      streams.includes(value.stream),
+  );
+};
+
+const emitJoined = async (
+  matchingKey: string,
+  streams: string[],
+  arrivals: { key: string; value: any }[],
+  matched: boolean,
+) => {
+  const ordered = [...arrivals].sort(
+    (a, b) => a.value.arrivedAt - b.value.arrivedAt,
+  );
+  const arrived = ordered.map(({ value }) => value.stream);
+
+  await kv.block.delete([
+    roundKey(matchingKey),
+    ...arrivals.map(({ key }) => key),
+  ]);
+
+  if (ordered.length === 0) {
+    return;
+  }
+
+  const [first, ...rest] = ordered;
+
+  await events.emit(
+    {
+      matched,
+      matchingKey,
+      streams: Object.fromEntries(
+        ordered.map(({ value }) => [value.stream, value.payload]),
+      ),
+      missing: streams.filter((stream) => !arrived.includes(stream)),
+    },
+    {
+      outputKey: "default",
+      parentEventId: first.value.eventId,
+      secondaryParentEventIds: rest.map(({ value }) => value.eventId),
+    },
+  );
+};
+
+const join: AppBlock = {
+  name: "Join",
+  category: "Transform",
+  description:
+    "Combines events from any number of named streams by matching events with the same key.\n\n" +
+    "How it works:\n" +
+    "- Streams: Configure the names of the streams you want to join\n" +
+    "- Arrival: Each event says which stream it belongs to and brings its payload\n" +
+    "- Matching: Events are matched using identical keys across streams\n" +
+    "- Quorum: Emit once all streams, or a configured number of them, have arrived\n" +
+    "- Timeout: Emit partial results if the quorum isn't reached in time\n\n" +
+    "Event flow:\n" +
+    "1. First event for a key arrives → starts waiting for the other streams\n" +
+    "2. Events from other streams with the same key are collected\n" +
+    "3. Quorum reached → emits all payloads with `matched: true`\n" +
+    "4. If the quorum isn't reached within timeout → emits what arrived with " +
+    "`matched: false` and the list of missing streams\n\n" +
+    "vs Merge: Merge pairs one primary stream with one secondary stream, Join " +
+    "correlates any number of streams without chaining blocks.\n\n" +
+    "Common uses:\n" +
+    "- Correlate plan, policy and cost results for the same run\n" +
+    "- Wait for several parallel jobs to report back\n" +
+    "- Collect approvals from a number of independent reviewers",
+  config: {
+    streams: {
+      name: "Streams",
+      description:
+        'Names of the streams to join, e.g. `["plan", "policy", "cost"]`.\n\n' +
+        "Every event sent to the input must name one of these streams.",
+      type: { type: "array", items: { type: "string" } },
+      required: true,
+      default: ["first", "second"],
+    },
+    quorum: {
+      name: "Quorum",
+      description:
+        "How many different streams must arrive for a key before the joined event is emitted.\n\n" +
+        "Leave empty to wait for all streams.",
+      type: "number",
+      required: false,
+    },
+    defaultJoinTimeout: {
+      name: "Default join timeout",
+      description:
+        "Default time in seconds to wait for the quorum, counted from the first event for a key.\n\n" +
+        "Timeout behavior:\n" +
+        "- Emits the payloads that did arrive with `matched: false`\n" +
+        "- Lists the streams that never arrived in `missing`\n" +
+        "- Can be overridden per event",
+      type: "number",
+      default: 300, // 5 minutes
+      required: false,
+    },
+  },
+  inputs: {
+    default: {
+      name: "Event",
+      description:
+        "An event belonging to one of the configured streams.\n\n" +
+        "If the same stream arrives more than once for a key before the join " +
+        "completes, the latest payload wins. Events arriving after a key was " +
+        "joined start a new round for that key.",
+      config: {
+        stream: {
+          name: "Stream",
+          description:
+            "Name of the stream this event belongs to - must be one of the configured streams.",
+          type: "string",
+          required: true,
+        },
+        matchingKey: {
+          name: "Matching key",
+          description:
+            "Identifier for matching with events from the other streams - must " +
+            "be identical across streams.\n\n" +
+            "Examples:\n" +
+            "- Run correlation: `outputs.run.runId`\n" +
+            "- Stack changes: `outputs.stack.stackId + ':' + outputs.stack.commit`",
+          type: "string",
+          required: true,
+        },
+        payload: {
+          name: "Payload",
+          description:
+            "Data this stream contributes - appears under the stream's name in the joined output.",
+          type: "any",
+          required: false,
+        },
+        joinTimeout: {
+          name: "Join timeout",
+          description:
+            "Event-specific timeout in seconds (overrides the default timeout). " +
+            "Only applies to the first event for a key, which starts the wait.",
+          type: "number",
+          required: false,
+        },
+      },
+      onEvent: async (input) => {
+        try {
+          const { stream, matchingKey, payload, joinTimeout } =
+            input.event.inputConfig;
+          const streams: string[] = input.block.config.streams || [];
+
+          if (!matchingKey) {
+            console.error("Event missing matching key");
+            return;
+          }
+
+          if (!streams.includes(stream)) {
+            console.error(`Unknown stream: ${stream}`);
+            return;
+          }
+
+          await withLock(lockKey(matchingKey), input.event.id, async () => {
+            // The first event for a key starts a new round of the join.
+            const { value: round } = await kv.block.get(roundKey(matchingKey));
+
+            if (!round) {
+              const effectiveTimeout =
+                joinTimeout || input.block.config.defaultJoinTimeout || 300; // 5 minutes default
+
+              await Promise.all([
+                kv.block.set({
+                  key: roundKey(matchingKey),
+                  value: { roundId: input.event.id, startedAt: Date.now() },
+                }),
+                timers.set(effectiveTimeout, {
+                  inputPayload: { matchingKey, roundId: input.event.id },
+                  description: `Timeout for join key: ${matchingKey}`,
+                }),
+              ]);
+            }
+
+            await kv.block.set({
+              key: `${arrivalPrefix(matchingKey)}${stream}`,
+              value: {
+                matchingKey,
+                stream,
+                payload: payload ?? null,
+                eventId: input.event.id,
+                arrivedAt: Date.now(),
+              },
+            });
+
+            const arrivals = await listArrivals(matchingKey, streams);
+            const quorum = Math.min(
+              input.block.config.quorum || streams.length,
+              streams.length,
+            );
+
+            if (arrivals.length >= quorum) {
+              await emitJoined(matchingKey, streams, arrivals, true);
+            }
+          });
+        } catch (error) {
+          console.error("Error processing join event:", error);
+        }
+      },
+    },
+  },
+  outputs: {
+    default: {
+      default: true,
+      name: "Joined",
+      description:
+        "Emits when the quorum is reached for a key, or with partial results when the join times out.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          matched: {
+            type: "boolean",
+            description:
+              "`true` if the quorum was reached, `false` if the join timed out.",
+          },
+          matchingKey: {
+            type: "string",
+            description: "The key the streams were joined on.",
+          },
+          streams: {
+            type: "object",
+            additionalProperties: true,
+            description:
+              "Payloads of the streams that arrived, keyed by stream name.",
+          },
+          missing: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Names of the streams that didn't arrive before the join was emitted.",
+          },
+        },
+        required: ["matched", "matchingKey", "streams", "missing"],
+      },
+    },
+  },
+  onTimer: async (input) => {
+    try {
+      const { matchingKey, roundId } = input.timer.payload;
+
+      await withLock(lockKey(matchingKey), randomUUID(), async () => {
+        const { value: round } = await kv.block.get(roundKey(matchingKey));
+
+        // Skip if the round has already been joined
+        if (!round || round.roundId !== roundId) return;
+
+        const streams: string[] = input.block.config.streams || [];
+        const arrivals = await listArrivals(matchingKey, streams);
+
+        await emitJoined(matchingKey, streams, arrivals, false);
+      });
+    } catch (error) {
+      console.error("Error processing join timeout:", error);
+    }
+  },
+};
+
+export default join;
@@ -0,0 +1,252 @@
+// Minimal JSON Schema validator covering the keywords commonly used to
+// describe payloads: type, enum, const, properties, required,
+// additionalProperties, items, anyOf, allOf, oneOf, and the numeric, string
+// and array bounds.
+
+export type JsonSchema = boolean | { [keyword: string]: any };
+
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeOf(value) === "object";
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const describe = (path: string) => path || "value";
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Returns a description of the first problem that would keep the schema
+// from being used for validation, or null if there is none.
+const checkSchema = (schema: unknown, path: string): string | null => {
+  if (typeof schema === "boolean") {
+    return null;
+  }
+  if (typeOf(schema) !== "object") {
+    return `${path} must be an object or a boolean`;
+  }
+
+  const {
+    pattern,
+    properties = {},
+    items,
+    additionalProperties,
+  } = schema as Record<string, any>;
+
+  if (pattern !== undefined && !isValidPattern(String(pattern))) {
+    return `${path}.pattern is not a valid regular expression: ${pattern}`;
+  }
+  if (typeOf(properties) !== "object") {
+    return `${path}.properties must be an object`;
+  }
+
+  const subschemas: [unknown, string][] = Object.entries(properties).map(
+    ([key, property]) => [property, `${path}.properties.${key}`],
+  );
+
+  if (items !== undefined) {
+    subschemas.push([items, `${path}.items`]);
+  }
+  if (additionalProperties !== undefined) {
+    subschemas.push([additionalProperties, `${path}.additionalProperties`]);
+  }
+
+  for (const keyword of ["allOf", "anyOf", "oneOf"]) {
+    const options: unknown = (schema as Record<string, any>)[keyword] ?? [];
+
+    if (!Array.isArray(options)) {
+      return `${path}.${keyword} must be an array`;
+    }
+    options.forEach((option, index) => {
+      subschemas.push([option, `${path}.${keyword}[${index}]`]);
+    });
+  }
+
+  for (const [subschema, subschemaPath] of subschemas) {
+    const problem = checkSchema(subschema, subschemaPath);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  return null;
+};
+
+// Reads a schema given either as an object or as JSON text, and throws if it
+// can't be used for validation. Returns undefined if no schema is given.
+export const parseSchema = (source: unknown): JsonSchema | undefined => {
+  if (source === undefined || source === null || source === "") {
+    return undefined;
+  }
+
+  let schema = source;
+  if (typeof source === "string") {
+    try {
+      schema = JSON.parse(source);
+    } catch {
+      throw new Error("Schema is not valid JSON");
+    }
+  }
+
+  const problem = checkSchema(schema, "schema");
+  if (problem) {
+    throw new Error(`Invalid schema: ${problem}`);
+  }
+
+  return schema as JsonSchema;
+};
+
+// Returns a list of human-readable validation errors, empty if the value
+// matches the schema.
+export const validateSchema = (
+  schema: JsonSchema | undefined,
+  value: unknown,
+  path = "",
+): string[] => {
+  if (schema === true || schema === undefined || schema === null) {
+    return [];
+  }
+  if (schema === false) {
+    return [`${describe(path)} is not allowed`];
+  }
+  if (typeOf(schema) !== "object") {
+    return [`${describe(path)} has an invalid schema`];
+  }
+
+  const errors: string[] = [];
+  const at = describe(path);
+
+  if (schema.type !== undefined) {
+    const types: string[] = [schema.type].flat();
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at} must be of type ${types.join(" or ")}`];
+    }
+  }
+
+  if (
+    schema.enum &&
+    !schema.enum.some((option: any) => isEqual(option, value))
+  ) {
+    errors.push(`${at} must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if ("const" in schema && !isEqual(schema.const, value)) {
+    errors.push(`${at} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at} must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !isValidPattern(schema.pattern)) {
+      errors.push(`${at} has an invalid pattern ${schema.pattern}`);
+    } else if (schema.pattern && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(`${at} must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(schema.items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push(`${describe(path ? `${path}.${key}` : key)} is required`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(object)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+
+      if (key in properties) {
+        errors.push(...validateSchema(properties[key], property, propertyPath));
+      } else if (schema.additionalProperties !== undefined) {
+        errors.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            property,
+            propertyPath,
+          ),
+        );
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const option of schema.allOf) {
+      errors.push(...validateSchema(option, value, path));
+    }
+  }
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some(
+      (option: JsonSchema) => validateSchema(option, value, path).length === 0,
+    )
+  ) {
+    errors.push(`${at} must match at least one of the allowed schemas`);
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (option: JsonSchema) => validateSchema(option, value, path).length === 0,
+    );
+    if (matches.length !== 1) {
+      errors.push(`${at} must match exactly one of the allowed schemas`);
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,50 @@
+// Mutual exclusion for updates that read a KV value and write it back, built
+// on locked KV keys.
+
+import { kv } from "@slflows/sdk/v1";
+
+// A crashed update must not keep its key locked forever.
+const LOCK_TTL_SECONDS = 30;
+const LOCK_ATTEMPTS = 100;
+const LOCK_RETRY_MILLIS = 50;
+
+// Runs the update while holding the lock stored under `lockKey`, so that
+// concurrent updates never overwrite each other's changes. Gives up after
+// about five seconds: with a fallback its result is returned, otherwise an
+// error is thrown.
+export const withLock = async <T>(
+  lockKey: string,
+  lockId: string,
+  update: () => Promise<T>,
+  fallback?: () => Promise<T>,
+): Promise<T> => {
+  for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt++) {
+    const acquired = await kv.block.set({
+      key: lockKey,
+      value: lockId,
+      ttl: LOCK_TTL_SECONDS,
+      lock: { id: lockId },
+    });
+
+    if (acquired) {
+      try {
+        return await update();
+      } finally {
+        await kv.block.set({
+          key: lockKey,
+          value: null,
+          ttl: 0,
+          lock: { id: lockId },
+        });
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MILLIS));
+  }
+
+  if (fallback) {
+    return await fallback();
+  }
+
+  throw new Error(`Timed out waiting for the lock: ${lockKey}`);
+};
@@ -1,5 +1,55 @@
 import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
 
+const PRIMARY_PREFIX = "merge:primary:";
+const SECONDARY_PREFIX = "merge:secondary:";
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Recursively merges plain objects, with `winner` taking precedence over
+// `loser` for anything that isn't an object on both sides.
+const deepMerge = (loser: any, winner: any): any => {
+  if (!isPlainObject(loser) || !isPlainObject(winner)) {
+    return winner === undefined ? loser : winner;
+  }
+
+  const result: Record<string, any> = { ...loser };
+  for (const [key, value] of Object.entries(winner)) {
+    result[key] = deepMerge(loser[key], value);
+  }
+
+  return result;
+};
+
+const combinePayloads = (strategy: string, primary: any, secondary: any) => {
+  switch (strategy) {
+    case "shallowMerge":
+      return isPlainObject(primary) && isPlainObject(secondary)
+        ? { ...primary, ...secondary }
+        : (secondary ?? primary);
+    case "deepMergePrimaryWins":
+      return deepMerge(secondary, primary);
+    case "deepMergeSecondaryWins":
+      return deepMerge(primary, secondary);
+    default:
+      return { primary, secondary };
+  }
+};
+
+const mergedEvent = (strategy: string, primary: any, secondary: any) => ({
+  matched: true,
+  payload: secondary,
+  primaryPayload: primary,
+  combined: combinePayloads(strategy, primary, secondary),
+});
+
+const timedOutEvent = (primary: any) => ({
+  matched: false,
+  payload: null,
+  primaryPayload: primary ?? null,
+  combined: null,
+});
+
 const merge: AppBlock = {
   name: "Merge",
   category: "Transform",
@@ -12,9 +62,11 @@ const merge: AppBlock = {
     "- Timeout: Primary events timeout if no secondary match arrives\n\n" +
     "Event flow:\n" +
     "1. Primary event arrives with matching key → waits for secondary\n" +
-    "2. Secondary event with same key → merges immediately with waiting primary\n" +
+    "2. Secondary event with same key → merges immediately with waiting primary " +
+    "(or primaries, depending on the match mode)\n" +
     "3. If no match within timeout → primary emits with `matched: false`\n" +
-    "4. If secondary has no waiting primary → emits to unmatched output\n\n" +
+    "4. If secondary has no waiting primary → emits to unmatched output, or " +
+    "waits for a primary for its buffer timeout if one is set\n\n" +
     "Common uses:\n" +
     "- Request/response correlation: Match API requests with their responses\n" +
     "- Multi-step workflows: Combine user actions with system responses\n" +
@@ -38,6 +90,46 @@ const merge: AppBlock = {
       default: 300, // 5 minutes
       required: false,
     },
+    combineStrategy: {
+      name: "Combine strategy",
+      description:
+        "How the primary and secondary payloads are combined into the `combined` output field.\n\n" +
+        "Strategies:\n" +
+        "- `sideBySide`: `{ primary, secondary }`, both payloads kept as they are\n" +
+        "- `shallowMerge`: Top-level fields of both payloads, secondary wins conflicts\n" +
+        "- `deepMergePrimaryWins`: Nested objects merged recursively, primary wins conflicts\n" +
+        "- `deepMergeSecondaryWins`: Nested objects merged recursively, secondary wins conflicts\n\n" +
+        "The individual payloads are always available as `primaryPayload` and `payload`.",
+      type: {
+        type: "string",
+        enum: [
+          "sideBySide",
+          "shallowMerge",
+          "deepMergePrimaryWins",
+          "deepMergeSecondaryWins",
+        ],
+      },
+      default: "sideBySide",
+      required: false,
+    },
+    matchMode: {
+      name: "Match mode",
+      description:
+        "Which waiting primary events a secondary event merges with when several share its key.\n\n" +
+        "Modes:\n" +
+        "- `all`: Every waiting primary event is merged and stops waiting\n" +
+        "- `oldest`: Only the oldest waiting primary is merged (FIFO pairing), the others keep waiting\n" +
+        "- `newest`: Only the newest waiting primary is merged, the others time out right away\n" +
+        "- `persistent`: Every waiting primary is merged but keeps waiting, so later secondary " +
+        "events can merge with it too until its timeout\n\n" +
+        "Persistent primaries that merged at least once are dropped silently when they time out.",
+      type: {
+        type: "string",
+        enum: ["all", "oldest", "newest", "persistent"],
+      },
+      default: "all",
+      required: false,
+    },
   },
   inputs: {
     primary: {
@@ -47,7 +139,8 @@ const merge: AppBlock = {
         "Role: These events initiate the merge process and wait for corresponding " +
         "secondary events with the same matching key.\n\n" +
         "Behavior:\n" +
-        "- Stores matching key and waits for secondary event\n" +
+        "- Merges right away with a buffered secondary event, if there is one\n" +
+        "- Otherwise stores matching key and waits for secondary event\n" +
         "- Times out if no secondary match arrives\n" +
         "- Emits with merged payload when secondary arrives\n" +
         "- Emits with `matched: false` on timeout",
@@ -66,10 +159,23 @@ const merge: AppBlock = {
           type: "number",
           required: false,
         },
+        payload: {
+          name: "Payload",
+          description:
+            "**Data carried by the primary event** - kept until the merge and emitted alongside the secondary payload.\n\n**Examples:**\n- **API calls**: the request that was sent\n- **Approval workflows**: the change that needs approval\n- **Order processing**: the order details\n\n**This payload becomes the `primaryPayload` field in the merged output event.**",
+          type: "any",
+          required: false,
+        },
       },
       onEvent: async (input) => {
         try {
-          const { matchingKey, mergeTimeout } = input.event.inputConfig;
+          const {
+            matchingKey,
+            mergeTimeout,
+            payload = null,
+          } = input.event.inputConfig;
+          const { combineStrategy, matchMode } = input.block.config;
+          const persistent = matchMode === "persistent";
 
           // Validate matching key
           if (!matchingKey) {
@@ -77,16 +183,56 @@ const merge: AppBlock = {
             return;
           }
 
+          // Secondary events may have arrived first and be waiting for us.
+          // Buffered secondaries are listed oldest first. A persistent primary
+          // takes all of them and keeps waiting for more, otherwise the
+          // oldest one completes the merge.
+          const { pairs: listed } = await kv.block.list({
+            keyPrefix: `${SECONDARY_PREFIX}${matchingKey}:`,
+          });
+
+          // Keys containing the separator may share a prefix with other keys,
+          // so only take secondaries buffered for exactly this key.
+          const buffered = listed.filter(
+            ({ value }) => value?.matchingKey === matchingKey,
+          );
+          const taken = persistent ? buffered : buffered.slice(0, 1);
+
+          if (taken.length > 0) {
+            await Promise.all([
+              ...taken.map(({ value }) =>
+                events.emit(
+                  mergedEvent(combineStrategy, payload, value.payload),
+                  {
+                    outputKey: "default",
+                    parentEventId: input.event.id,
+                    secondaryParentEventIds: [value.eventId],
+                  },
+                ),
+              ),
+              kv.block.delete(taken.map(({ key }) => key)),
+            ]);
+
+            if (!persistent) {
+              return;
+            }
+          }
+
           // Calculate effective timeout
           const effectiveTimeout =
             mergeTimeout || input.block.config.defaultMergeTimeout || 300; // 5 minutes default
 
           // Create a KV store entry for this primary event
-          const kvKey = `merge:primary:${matchingKey}:${input.event.id}`;
+          const kvKey = `${PRIMARY_PREFIX}${matchingKey}:${input.event.id}`;
 
           await kv.block.set({
             key: kvKey,
-            value: { eventId: input.event.id },
+            value: {
+              eventId: input.event.id,
+              payload,
+              receivedAt: Date.now(),
+              matchCount: taken.length,
+            },
           });
 
           // Set a timer to handle timeout case
@@ -105,7 +251,7 @@ const merge: AppBlock = {
     secondary: {
       name: "Secondary",
       description:
-        "**Secondary event stream** - events that provide payload data to merge with waiting primary events.\n\n**Role:** These events carry the data to be merged and trigger the merge when they match waiting primary events.\n\n**Behavior:**\n- Looks for primary events with matching key\n- If match found: merges payload with primary event\n- If no match found: emits to unmatched output\n- Immediately processes (doesn't wait)",
+        "**Secondary event stream** - events that provide payload data to merge with waiting primary events.\n\n**Role:** These events carry the data to be merged and trigger the merge when they match waiting primary events.\n\n**Behavior:**\n- Looks for primary events with matching key\n- If match found: merges payload with primary event\n- If no match found: emits to unmatched output, or waits for a primary if a buffer timeout is set\n- Buffered events that no primary picks up in time are emitted to unmatched output",
       config: {
         matchingKey: {
           name: "Matching key",
@@ -121,10 +267,19 @@ const merge: AppBlock = {
           type: "any",
           required: true,
         },
+        bufferTimeout: {
+          name: "Buffer timeout",
+          description:
+            "**Time in seconds to wait for a primary event** if none is waiting when this event arrives.\n\n**Use when:**\n- Secondary events can overtake their primary events\n- Both streams are triggered concurrently\n\n**Behavior:**\n- The first primary event with the same key merges with this event\n- If no primary arrives in time, this event is emitted to unmatched output\n\n**Leave empty** to emit to unmatched output right away.",
+          type: "number",
+          required: false,
+        },
       },
       onEvent: async (input) => {
         try {
-          const { matchingKey, payload } = input.event.inputConfig;
+          const { matchingKey, payload, bufferTimeout } =
+            input.event.inputConfig;
+          const { combineStrategy, matchMode } = input.block.config;
 
           // Validate matching key
           if (!matchingKey) {
@@ -133,9 +288,28 @@ const merge: AppBlock = {
           }
 
           // Search for matching primary events
-          const prefix = `merge:primary:${matchingKey}:`;
+          const prefix = `${PRIMARY_PREFIX}${matchingKey}:`;
           const { pairs } = await kv.block.list({ keyPrefix: prefix });
 
+          if (pairs.length === 0 && bufferTimeout > 0) {
+            // No matching primary events found yet, wait for one to arrive
+            const kvKey = `${SECONDARY_PREFIX}${matchingKey}:${input.event.id}`;
+
+            await kv.block.set({
+              key: kvKey,
+              value: { eventId: input.event.id, matchingKey, payload },
+            });
+
+            await timers.set(bufferTimeout, {
+              inputPayload: {
+                kvKey,
+                eventId: input.event.id,
+              },
+              description: `Buffer timeout for merge key: ${matchingKey}`,
+            });
+            return;
+          }
+
           if (pairs.length === 0) {
             // No matching primary events found, emit on unmatched output
             await events.emit(
@@ -148,17 +322,33 @@ const merge: AppBlock = {
             return;
           }
 
+          // Pick the primary events to merge according to the match mode,
+          // oldest first.
+          const waiting = [...pairs].sort(
+            (a, b) => (a.value.receivedAt || 0) - (b.value.receivedAt || 0),
+          );
+          let matches = waiting;
+          let superseded: typeof waiting = [];
+
+          if (matchMode === "oldest") {
+            matches = waiting.slice(0, 1);
+          } else if (matchMode === "newest") {
+            matches = waiting.slice(-1);
+            superseded = waiting.slice(0, -1);
+          }
+
           // Collect all events to emit and keys to delete
           const promises: Promise<any>[] = [];
           const keysToDelete: string[] = [];
 
-          for (const match of pairs) {
-            const primaryEventId = match.value.eventId;
+          for (const match of matches) {
+            const { eventId: primaryEventId, payload: primaryPayload = null } =
+              match.value;
 
             // Add emit promise to the collection
             promises.push(
               events.emit(
-                { matched: true, payload: payload },
+                mergedEvent(combineStrategy, primaryPayload, payload),
                 {
                   outputKey: "default",
                   parentEventId: primaryEventId,
@@ -167,8 +357,33 @@ const merge: AppBlock = {
               ),
             );
 
-            // Add key to the collection for deletion
-            keysToDelete.push(match.key);
+            if (matchMode === "persistent") {
+              // Keep waiting for further secondary events, but remember the
+              // match so the primary doesn't emit a timeout later.
+              promises.push(
+                kv.block.set({
+                  key: match.key,
+                  value: {
+                    ...match.value,
+                    matchCount: (match.value.matchCount || 0) + 1,
+                  },
+                }),
+              );
+            } else {
+              // Add key to the collection for deletion
+              keysToDelete.push(match.key);
+            }
+          }
+
+          // Older primaries lose to the newest one and time out right away
+          for (const { key, value } of superseded) {
+            promises.push(
+              events.emit(timedOutEvent(value.payload), {
+                outputKey: "default",
+                parentEventId: value.eventId,
+              }),
+            );
+            keysToDelete.push(key);
           }
 
           if (keysToDelete.length > 0) {
@@ -203,6 +418,16 @@ const merge: AppBlock = {
             description:
               "**Merged data from secondary event** - contains the payload from the matching secondary event, or `null` if timeout.\n\n**Content when matched:**\n- Exact payload data from the secondary event\n- Can be any data type (object, string, number, array)\n- Use this data for further processing\n\n**Content when timeout:**\n- Always `null`\n- Indicates no secondary event arrived in time",
           },
+          primaryPayload: {
+            type: "any",
+            description:
+              "**Data from primary event** - the payload the primary event was sent with, or `null` if it had none.\n\nPresent both when matched and on timeout.",
+          },
+          combined: {
+            type: "any",
+            description:
+              "**Primary and secondary payloads combined** using the block's combine strategy, or `null` if timeout.\n\n**Default:** `{ primary, secondary }` with both payloads side by side.",
+          },
         },
         required: ["matched"],
       },
@@ -210,7 +435,7 @@ const merge: AppBlock = {
     unmatched: {
       name: "Unmatched",
       description:
-        "**Secondary events with no waiting primary** - emits when a secondary event arrives but no primary event is waiting with the same key.",
+        "**Secondary events with no waiting primary** - emits when a secondary event arrives but no primary event is waiting with the same key, or when a buffered secondary event times out.",
       secondary: true,
       possiblePrimaryParents: ["secondary"],
       type: {
@@ -236,13 +461,32 @@ const merge: AppBlock = {
       const { kvKey, eventId } = input.timer.payload;
 
       // Skip if already matched
-      if (!(await kv.block.get(kvKey)).value) return;
+      const { value } = await kv.block.get(kvKey);
+      if (!value) return;
+
+      // Buffered secondary event that no primary event picked up
+      if (kvKey.startsWith(SECONDARY_PREFIX)) {
+        await Promise.all([
+          events.emit(
+            { matchingKey: value.matchingKey, payload: value.payload },
+            { parentEventId: eventId, outputKey: "unmatched" },
+          ),
+          kv.block.delete([kvKey]),
+        ]);
+        return;
+      }
+
+      // Persistent primaries that already merged just stop waiting
+      if (value.matchCount > 0) {
+        await kv.block.delete([kvKey]);
+        return;
+      }
 
       await Promise.all([
-        events.emit(
-          { matched: false, payload: null },
-          { parentEventId: eventId, outputKey: "default" },
-        ),
+        events.emit(timedOutEvent(value.payload), {
+          parentEventId: eventId,
+          outputKey: "default",
+        }),
         kv.block.delete([kvKey]),
       ]);
     } catch (error) {
@@ -1,26 +1,105 @@
-import {
-  AppBlock,
-  EntityLifecycleCallbackOutput,
-  events,
-  kv,
-  lifecycle,
-  timers,
-} from "@slflows/sdk/v1";
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
 
 const CURRENT_HOLDER_KEY = "currentHolder";
+const KEYED_HOLDER_PREFIX = "holder:";
+const CLAIM_PREFIX = "claim:";
 
-const clearLock = async (eventId: string): Promise<Boolean> => {
+// Claims outlive the queue entry they guard by far, so a stale listing of
+// the queue can never claim an event a second time.
+const CLAIM_TTL_SECONDS = 3600;
+
+// The default (empty) lock key keeps using the original holder key so that
+// unkeyed mutexes behave exactly as they always did.
+const holderKey = (lockKey: string) =>
+  lockKey ? `${KEYED_HOLDER_PREFIX}${lockKey}` : CURRENT_HOLDER_KEY;
+
+// Holders stored before per-key locking were the bare ID of the event that
+// acquired the lock, and their timers carry that ID as the payload.
+const asHolder = (value: any) =>
+  typeof value === "string" ? { lockId: value } : value;
+
+const clearLock = async (
+  lockKey: string,
+  eventId: string,
+): Promise<Boolean> => {
   return await kv.block.set({
-    key: CURRENT_HOLDER_KEY,
+    key: holderKey(lockKey),
     value: null,
     ttl: 0,
     lock: { id: eventId },
   });
 };
 
-const statusHeld: EntityLifecycleCallbackOutput = {
-  newStatus: "ready",
-  customStatusDescription: "Held",
+// A waiting event is either granted the lock or gives up, never both: only
+// the first to claim the event handles it. Returns null if it was claimed.
+const claimEvent = async (eventId: string) => {
+  const claimId = crypto.randomUUID();
+  const claimed = await kv.block.set({
+    key: `${CLAIM_PREFIX}${eventId}`,
+    value: claimId,
+    ttl: CLAIM_TTL_SECONDS,
+    lock: { id: claimId },
+  });
+
+  return claimed ? claimId : null;
+};
+
+const releaseClaim = async (eventId: string, claimId: string) => {
+  await kv.block.set({
+    key: `${CLAIM_PREFIX}${eventId}`,
+    value: null,
+    ttl: 0,
+    lock: { id: claimId },
+  });
+};
+
+// Starts a new lease for the holder of a lock. Every lease gets its own ID so
+// that timers belonging to a lease that has since been renewed are ignored.
+const startLease = async (
+  lockKey: string,
+  lockId: string,
+  timeout: number,
+  acquiredAt: number,
+) => {
+  const leaseId = crypto.randomUUID();
+  const timerId = await timers.set(timeout, {
+    inputPayload: { lockId, lockKey, leaseId },
+  });
+
+  return {
+    lockId,
+    leaseId,
+    timerId,
+    timeout,
+    acquiredAt,
+    expiresAt: Date.now() + timeout * 1000,
+  };
+};
+
+// Gives up on an event that has been waiting for the lock for too long.
+const giveUp = async (eventId: string) => {
+  const key = `evt:${eventId}`;
+  const { value } = await kv.block.get(key);
+
+  // The event has acquired the lock in the meantime, or is about to.
+  if (!value || !(await claimEvent(eventId))) {
+    return;
+  }
+
+  await Promise.all([
+    kv.block.delete([key]),
+    events.cancelPending(value.pendingId, "Gave up waiting for mutex"),
+    events.emit(
+      {
+        eventId,
+        lockKey: value.lockKey || "",
+        queuedAt: value.queuedAt,
+        waitMillis: Date.now() - value.queuedAt,
+      },
+      { outputKey: "gaveUp", parentEventId: eventId },
+    ),
+  ]);
+  await lifecycle.sync();
 };
 
 const mutex: AppBlock = {
@@ -30,64 +109,169 @@ const mutex: AppBlock = {
   description:
     "Ensures only one event can be processed at a time by creating a queue system.\n\n" +
     "How it works:\n" +
-    "- Events are queued in arrival order\n" +
+    "- Events are queued in arrival order, higher priority events first\n" +
     "- Only the first event gets processed immediately\n" +
-    "- Others wait their turn until the mutex is released\n\n" +
+    "- Others wait their turn until the mutex is released\n" +
+    "- Events with different lock keys are queued and locked independently\n\n" +
     "Release mechanisms:\n" +
     "- Automatic timeout: Events are released after the configured timeout period\n" +
-    "- Manual release: Use the `release` input to manually release the mutex\n\n" +
+    "- Manual release: Use the `release` input to manually release the mutex\n" +
+    "- Renewal: Use the `renew` input to extend the lease of the current holder\n" +
+    "- Max wait: Waiting events give up after the configured max wait period\n\n" +
     "Use cases: Rate-limited APIs, file operations, database transactions, " +
     "or any resource that can only handle one operation at a time.",
 
   onSync: async () => {
-    // First, detect if the releaser value has changed by comparing the one
-    // stored in the KV store with the one provided in the config.
-    const { value: currentHolder } = await kv.block.get(CURRENT_HOLDER_KEY);
+    const [{ value: currentHolder }, { pairs: keyedHolders }, { pairs }] =
+      await Promise.all([
+        kv.block.get(CURRENT_HOLDER_KEY),
+        kv.block.list({ keyPrefix: KEYED_HOLDER_PREFIX }),
+        // When we list events, they are sorted by their creation time.
+        kv.block.list({ keyPrefix: "evt:" }),
+      ]);
+
+    // Higher priority events go first. The sort is stable, so events with
+    // the same priority keep their arrival order.
+    pairs.sort((a, b) => (b.value.priority || 0) - (a.value.priority || 0));
+
+    const holders = new Map<string, any>(
+      keyedHolders
+        .filter(({ value }) => value)
+        .map(({ key, value }) => [
+          key.slice(KEYED_HOLDER_PREFIX.length),
+          value,
+        ]),
+    );
     if (currentHolder) {
-      return statusHeld;
+      holders.set("", asHolder(currentHolder));
+    }
+
+    // Pick the eldest waiting event for every lock key that is not held.
+    // Waiters for a held key are left alone, so releasing one key never
+    // wakes up contenders for another.
+    const contenders = new Map<string, (typeof pairs)[number]>();
+    for (const pair of pairs) {
+      const lockKey = pair.value.lockKey || "";
+      if (!holders.has(lockKey) && !contenders.has(lockKey)) {
+        contenders.set(lockKey, pair);
+      }
     }
 
-    // Get the next event ID. When we list events, they are sorted by
-    // their creation time. We want to release the oldest event first.
-    const { pairs } = await kv.block.list({ keyPrefix: "evt:" });
+    const granted = new Set<(typeof pairs)[number]>();
+    await Promise.all(
+      [...contenders].map(async ([lockKey, pair]) => {
+        const { key, value } = pair;
+        const { timeout, pendingId, maxWaitTimerId } = value;
+        const eventId = key.split(":")[1];
+
+        // The event has given up, or is being granted by a concurrent sync.
+        const claimId = await claimEvent(eventId);
+        if (!claimId) {
+          return;
+        }
+
+        const holder = await startLease(lockKey, eventId, timeout, Date.now());
+        const acquired = await kv.block.set({
+          key: holderKey(lockKey),
+          value: holder,
+          lock: { id: eventId },
+        });
+
+        // Another event took the lock first, this one keeps waiting.
+        if (!acquired) {
+          await Promise.all([
+            timers.unset(holder.timerId),
+            releaseClaim(eventId, claimId),
+          ]);
+          return;
+        }
+
+        await Promise.all([
+          maxWaitTimerId && timers.unset(maxWaitTimerId),
+          kv.block.set({ key, value: "", ttl: 0 }), // Delete the event from the queue.
+          events.emit(
+            { lockId: eventId, lockKey },
+            { complete: pendingId, echo: true, parentEventId: eventId },
+          ),
+        ]);
 
-    // It is possible that there are no events waiting for the mutex
-    // to be released.
-    if (pairs.length === 0) {
+        holders.set(lockKey, holder);
+        granted.add(pair);
+      }),
+    );
+
+    const now = Date.now();
+    const signalUpdates = {
+      holders: [...holders].map(([lockKey, holder]) => ({
+        lockKey,
+        lockId: holder.lockId,
+        acquiredAt: holder.acquiredAt,
+        expiresAt: holder.expiresAt,
+      })),
+      waiting: pairs
+        .filter((pair) => !granted.has(pair))
+        .map(({ key, value: { lockKey, queuedAt, priority } }) => ({
+          lockKey: lockKey || "",
+          eventId: key.split(":")[1],
+          priority: priority || 0,
+          queuedAt,
+          waitMillis: now - queuedAt,
+        })),
+    };
+
+    if (holders.size === 0) {
       return {
         newStatus: "ready",
         customStatusDescription: "Available",
+        signalUpdates,
       };
     }
 
-    // Extract the eldest waiting event from our queue of contenders
-    const [
-      {
-        key,
-        value: { timeout, pendingId },
-      },
-    ] = pairs;
-    const eventId = key.split(":")[1];
+    return {
+      newStatus: "ready",
+      customStatusDescription:
+        holders.size === 1 ? "Held" : `${holders.size} keys held`,
+      signalUpdates,
+    };
+  },
+
+  onTimer: async ({ timer: { payload } }) => {
+    // Timers set before per-key locking release the shared lock.
+    if (typeof payload === "string" || !payload) {
+      if (await clearLock("", payload || "")) {
+        await lifecycle.sync();
+      }
+      return;
+    }
+
+    if (payload.kind === "maxWait") {
+      return await giveUp(payload.eventId);
+    }
+
+    const { lockId, lockKey, leaseId } = payload;
+    const { value: holder } = await kv.block.get(holderKey(lockKey));
+
+    // The lease has been renewed or released in the meantime.
+    if (holder?.lockId !== lockId || holder?.leaseId !== leaseId) {
+      return;
+    }
+
+    if (!(await clearLock(lockKey, lockId))) {
+      return;
+    }
 
     await Promise.all([
-      timers.set(timeout, { inputPayload: eventId }),
-      kv.block.setMany([
-        { key: CURRENT_HOLDER_KEY, value: eventId, lock: { id: eventId } },
-        { key: `evt:${eventId}`, value: "", ttl: 0 }, // Delete the event from the queue.
-      ]),
       events.emit(
-        { lockId: eventId },
-        { complete: pendingId, echo: true, parentEventId: eventId },
+        {
+          lockId,
+          lockKey,
+          acquiredAt: holder.acquiredAt,
+          expiredAt: Date.now(),
+        },
+        { outputKey: "expired", parentEventId: lockId },
       ),
+      lifecycle.sync(),
     ]);
-
-    return statusHeld;
-  },
-
-  onTimer: async ({ timer: { payload: eventId } }) => {
-    if (await clearLock(eventId || "")) {
-      await lifecycle.sync();
-    }
   },
 
   inputs: {
@@ -95,6 +279,16 @@ const mutex: AppBlock = {
       name: "Acquire",
       description: "Attempts to acquire the mutex lock for processing",
       config: {
+        lockKey: {
+          name: "Lock key",
+          type: "string",
+          description:
+            "Identifier of the resource to lock, e.g. a stack ID.\n\n" +
+            "Each key has its own holder and waiting queue, so events for " +
+            "unrelated resources don't wait for each other. Leave empty to " +
+            "share a single lock between all events.",
+          required: false,
+        },
         timeout: {
           name: "Lock timeout",
           type: "number",
@@ -102,16 +296,48 @@ const mutex: AppBlock = {
           required: true,
           default: 60,
         },
+        priority: {
+          name: "Priority",
+          type: "number",
+          description:
+            "Events with a higher priority acquire the lock before events " +
+            "with a lower one, e.g. to let urgent hotfix runs jump the queue. " +
+            "Events with the same priority are served in arrival order.",
+          required: false,
+          default: 0,
+        },
+        maxWait: {
+          name: "Max wait",
+          type: "number",
+          description:
+            "Maximum time in seconds to wait for the lock. Events still " +
+            "waiting after this period give up and are emitted on the " +
+            "`gaveUp` output. Leave empty to wait indefinitely.",
+          required: false,
+        },
       },
       onEvent: async ({ event }) => {
         const pendingId = await events.createPending({
           statusDescription: "Waiting for mutex",
         });
-        const timeout = event.inputConfig.timeout;
+        const { timeout, lockKey, priority, maxWait } = event.inputConfig;
+
+        const maxWaitTimerId = maxWait
+          ? await timers.set(maxWait, {
+              inputPayload: { kind: "maxWait", eventId: event.id },
+            })
+          : null;
 
         await kv.block.set({
           key: `evt:${event.id}`,
-          value: { pendingId, timeout },
+          value: {
+            pendingId,
+            timeout,
+            lockKey: lockKey || "",
+            priority: priority || 0,
+            maxWaitTimerId,
+            queuedAt: Date.now(),
+          },
         });
         await lifecycle.sync();
       },
@@ -121,11 +347,63 @@ const mutex: AppBlock = {
       description: "Releases the mutex lock",
       config: {},
       onEvent: async ({ event: { echo } }) => {
-        if (await clearLock(echo?.body.lockId || "")) {
+        if (
+          await clearLock(echo?.body.lockKey || "", echo?.body.lockId || "")
+        ) {
           await lifecycle.sync();
         }
       },
     },
+    renew: {
+      name: "Renew",
+      description:
+        "Extends the lease of the event currently holding the mutex, " +
+        "restarting its automatic release timeout",
+      config: {
+        timeout: {
+          name: "Lock timeout",
+          type: "number",
+          description:
+            "New automatic release timeout in seconds, counted from now. " +
+            "Leave empty to reuse the timeout the lock was acquired with.",
+          required: false,
+        },
+      },
+      onEvent: async ({ event: { echo, inputConfig } }) => {
+        const { lockId, lockKey = "" } = echo?.body || {};
+        const { value: holder } = await kv.block.get(holderKey(lockKey));
+
+        if (!lockId || asHolder(holder)?.lockId !== lockId) {
+          console.warn(`Lock ${lockId} is no longer held, cannot renew it`);
+          return;
+        }
+
+        // Its timer would still release the lock at the original time.
+        if (typeof holder === "string") {
+          console.warn(
+            `Lock ${lockId} was acquired before leases existed, cannot renew it`,
+          );
+          return;
+        }
+
+        const renewed = await startLease(
+          lockKey,
+          lockId,
+          inputConfig.timeout || holder.timeout,
+          holder.acquiredAt,
+        );
+
+        await Promise.all([
+          timers.unset(holder.timerId),
+          kv.block.set({
+            key: holderKey(lockKey),
+            value: renewed,
+            lock: { id: lockId },
+          }),
+        ]);
+        await lifecycle.sync();
+      },
+    },
   },
   outputs: {
     default: {
@@ -138,9 +416,91 @@ const mutex: AppBlock = {
             description:
               "Unique identifier for the event that acquired the mutex",
           },
+          lockKey: {
+            type: "string",
+            description:
+              "Key of the lock that was acquired (empty for the shared lock)",
+          },
+        },
+      },
+    },
+    expired: {
+      name: "Expired",
+      description:
+        "Emitted when a holder's lease lapses before it released the mutex, " +
+        "so the holder can learn that it lost the lock.",
+      secondary: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          lockId: {
+            type: "string",
+            description: "Identifier of the event whose lease expired",
+          },
+          lockKey: {
+            type: "string",
+            description:
+              "Key of the lock that was lost (empty for the shared lock)",
+          },
+          acquiredAt: {
+            type: "number",
+            description: "When the lock was acquired (Unix milliseconds)",
+          },
+          expiredAt: {
+            type: "number",
+            description: "When the lease expired (Unix milliseconds)",
+          },
         },
+        required: ["lockId", "lockKey", "acquiredAt", "expiredAt"],
       },
     },
+    gaveUp: {
+      name: "Gave up",
+      description:
+        "Emitted when an event waited longer than its max wait period " +
+        "without acquiring the mutex.",
+      secondary: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          eventId: {
+            type: "string",
+            description: "Identifier of the event that gave up waiting",
+          },
+          lockKey: {
+            type: "string",
+            description:
+              "Key of the lock the event was waiting for (empty for the shared lock)",
+          },
+          queuedAt: {
+            type: "number",
+            description: "When the event started waiting (Unix milliseconds)",
+          },
+          waitMillis: {
+            type: "number",
+            description: "How long the event waited before giving up",
+          },
+        },
+        required: ["eventId", "lockKey", "queuedAt", "waitMillis"],
+      },
+    },
+  },
+  signals: {
+    holders: {
+      name: "Holders",
+      description:
+        "Events currently holding a lock, one entry per lock key, with the " +
+        "time the lock was acquired and when its lease expires (Unix milliseconds).",
+    },
+    waiting: {
+      name: "Waiting",
+      description:
+        "Events waiting for a lock, in the order they will be served, with " +
+        "their priority and how long each one " +
+        "has been waiting at the time of the last update.",
+    },
   },
 };
 
@@ -0,0 +1,381 @@
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
+import { withLock } from "./lock.ts";
+
+const STATE_PREFIX = "limit:";
+const LOCK_PREFIX = "lock:";
+
+type BucketState = {
+  algorithm: "tokenBucket";
+  limit: number;
+  windowSeconds: number;
+  tokens: number;
+  updatedAt: number;
+};
+
+type WindowState = {
+  algorithm: "slidingWindow";
+  limit: number;
+  windowSeconds: number;
+  // Sorted admission times, including ones reserved in the future for
+  // delayed events.
+  timestamps: number[];
+};
+
+type LimiterState = BucketState | WindowState;
+
+type Reservation = {
+  delayMs: number;
+  state: LimiterState;
+};
+
+// Tokens refill continuously at `limit` tokens per window. A delayed event
+// takes its token in advance, which may leave the bucket in debt.
+const reserveToken = (
+  previous: BucketState | null,
+  limit: number,
+  windowSeconds: number,
+  now: number,
+): Reservation => {
+  const rate = limit / (windowSeconds * 1000);
+  const tokens = previous
+    ? Math.min(limit, previous.tokens + (now - previous.updatedAt) * rate)
+    : limit;
+
+  return {
+    delayMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) / rate),
+    state: {
+      algorithm: "tokenBucket",
+      limit,
+      windowSeconds,
+      tokens: tokens - 1,
+      updatedAt: now,
+    },
+  };
+};
+
+// At most `limit` admissions fit in any window. When the window is full, the
+// event is admitted as soon as the oldest relevant admission leaves it.
+const reserveSlot = (
+  previous: WindowState | null,
+  limit: number,
+  windowSeconds: number,
+  now: number,
+): Reservation => {
+  const windowMs = windowSeconds * 1000;
+  const timestamps = (previous?.timestamps || []).filter(
+    (timestamp) => timestamp > now - windowMs,
+  );
+  const slot =
+    timestamps.length < limit
+      ? now
+      : Math.max(now, timestamps[timestamps.length - limit] + windowMs);
+
+  return {
+    delayMs: slot - now,
+    state: {
+      algorithm: "slidingWindow",
+      limit,
+      windowSeconds,
+      timestamps: [...timestamps, slot].sort((a, b) => a - b),
+    },
+  };
+};
+
+const remainingBudget = (state: LimiterState, now: number): number => {
+  if (state.algorithm === "tokenBucket") {
+    const rate = state.limit / (state.windowSeconds * 1000);
+    const tokens = Math.min(
+      state.limit,
+      state.tokens + (now - state.updatedAt) * rate,
+    );
+
+    return Math.max(0, Math.floor(tokens));
+  }
+
+  const windowMs = state.windowSeconds * 1000;
+  const used = state.timestamps.filter(
+    (timestamp) => timestamp > now - windowMs,
+  ).length;
+
+  return Math.max(0, state.limit - used);
+};
+
+// Seconds until the state is indistinguishable from having no state at all,
+// so that idle keys are dropped from the KV store.
+const stateTtl = (state: LimiterState, now: number): number => {
+  const untilIdleMs =
+    state.algorithm === "tokenBucket"
+      ? (state.limit - state.tokens) /
+        (state.limit / (state.windowSeconds * 1000))
+      : state.timestamps[state.timestamps.length - 1] +
+        state.windowSeconds * 1000 -
+        now;
+
+  return Math.max(1, Math.ceil(untilIdleMs / 1000));
+};
+
+const rateLimiter: AppBlock = {
+  name: "Rate limiter",
+  category: "Control",
+  description:
+    "Limits how many events can pass per key within a time window.\n\n" +
+    "How it works:\n" +
+    "- Each event provides a key (e.g. a Slack channel) and a limit per window\n" +
+    "- Events within the budget for their key go to the `allowed` output\n" +
+    "- Events over the budget go to the `limited` output, or are delayed " +
+    "until budget is available when delaying is enabled\n\n" +
+    "Algorithms:\n" +
+    "- Token bucket: Budget refills continuously, allowing short bursts up to the limit\n" +
+    "- Sliding window: At most `limit` events in any window of the given length\n\n" +
+    "vs Deduplicate: Deduplicate lets a key through once per time window, " +
+    "Rate Limiter lets it through up to a configured number of times.\n\n" +
+    'Common uses: "At most 10 Slack messages per minute per channel", ' +
+    "protecting rate-limited APIs, smoothing out bursts of webhook events.",
+  config: {
+    algorithm: {
+      name: "Algorithm",
+      description:
+        "How the budget for each key is tracked.\n\n" +
+        "- `tokenBucket`: Budget refills continuously at `limit` events per window\n" +
+        "- `slidingWindow`: At most `limit` events in any window of the given length",
+      type: { type: "string", enum: ["tokenBucket", "slidingWindow"] },
+      required: true,
+      default: "tokenBucket",
+    },
+    delayLimited: {
+      name: "Delay limited events",
+      description:
+        "When enabled, events over the limit are held back and emitted on the " +
+        "`allowed` output as soon as budget is available, instead of being " +
+        "emitted on the `limited` output right away.",
+      type: "boolean",
+      required: false,
+      default: false,
+    },
+    maxDelaySeconds: {
+      name: "Maximum delay (seconds)",
+      description:
+        "When delaying limited events, the longest an event may be held back. " +
+        "Events that would need to wait longer are emitted on the `limited` " +
+        "output instead. Leave empty to allow any delay.",
+      type: "number",
+      required: false,
+    },
+  },
+  inputs: {
+    default: {
+      config: {
+        key: {
+          name: "Key",
+          description:
+            "Identifier the budget is tracked for - events with the same key " +
+            "share the same budget.\n\n" +
+            "Examples:\n" +
+            "- Per channel: `outputs.blockId.channelId`\n" +
+            "- Per user and action: `outputs.blockId.userId + ':' + outputs.blockId.action`\n" +
+            "- Global: a constant string",
+          type: "string",
+          required: true,
+          default: "",
+        },
+        limit: {
+          name: "Limit",
+          description: "How many events are allowed per key within the window.",
+          type: "number",
+          required: true,
+          default: 10,
+        },
+        windowSeconds: {
+          name: "Window (seconds)",
+          description: "Length of the time window the limit applies to.",
+          type: "number",
+          required: true,
+          default: 60,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { key, limit, windowSeconds } = event.inputConfig;
+        const { algorithm, delayLimited, maxDelaySeconds } = block.config;
+
+        if (!limit || limit < 1 || !windowSeconds || windowSeconds <= 0) {
+          console.error("Invalid limit or window");
+          return;
+        }
+
+        const stateKey = `${STATE_PREFIX}${key}`;
+
+        // Concurrent events never take their budget from the same state.
+        const reservation = await withLock(
+          `${LOCK_PREFIX}${key}`,
+          event.id,
+          async () => {
+            const now = Date.now();
+            const { value } = await kv.block.get(stateKey);
+
+            // Start over if the state was built for a different algorithm.
+            const previous = value?.algorithm === algorithm ? value : null;
+            const { delayMs, state } =
+              algorithm === "slidingWindow"
+                ? reserveSlot(previous, limit, windowSeconds, now)
+                : reserveToken(previous, limit, windowSeconds, now);
+
+            const canDelay =
+              delayLimited &&
+              (!maxDelaySeconds || delayMs <= maxDelaySeconds * 1000);
+
+            // Only events that pass, now or later, take from the budget.
+            if (delayMs === 0 || canDelay) {
+              await kv.block.set({
+                key: stateKey,
+                value: state,
+                ttl: stateTtl(state, now),
+              });
+            }
+
+            return { now, delayMs, state, canDelay };
+          },
+          // Under heavy contention for the key, limit the event rather than
+          // failing it.
+          async () => null,
+        );
+
+        if (!reservation) {
+          console.warn(`Limiting event, the state of key ${key} is busy`);
+          await events.emit(
+            { key, limit, retryAfterSeconds: 1 },
+            { outputKey: "limited" },
+          );
+          return;
+        }
+
+        const { now, delayMs, state, canDelay } = reservation;
+
+        if (delayMs > 0 && !canDelay) {
+          await events.emit(
+            { key, limit, retryAfterSeconds: Math.ceil(delayMs / 1000) },
+            { outputKey: "limited" },
+          );
+          return;
+        }
+
+        if (delayMs === 0) {
+          await events.emit(
+            { key, remaining: remainingBudget(state, now), delayedMillis: 0 },
+            { outputKey: "allowed" },
+          );
+        } else {
+          const pendingEventId = await events.createPending({
+            outputKey: "allowed",
+            statusDescription: `Rate limited, delayed by ${Math.ceil(delayMs / 1000)} seconds`,
+          });
+
+          await timers.set(delayMs / 1000, {
+            description: `Release rate limited event for key: ${key}`,
+            inputPayload: { key, eventId: event.id, delayMs },
+            pendingEventId,
+          });
+        }
+
+        await lifecycle.sync();
+      },
+    },
+  },
+  onTimer: async ({ timer: { payload, pendingEvent } }) => {
+    const { key, eventId, delayMs } = payload;
+    const { value: state } = await kv.block.get(`${STATE_PREFIX}${key}`);
+
+    await events.emit(
+      {
+        key,
+        remaining: state ? remainingBudget(state, Date.now()) : 0,
+        delayedMillis: delayMs,
+      },
+      {
+        outputKey: "allowed",
+        complete: pendingEvent!.id,
+        parentEventId: eventId,
+      },
+    );
+    await lifecycle.sync();
+  },
+  onSync: async () => {
+    const now = Date.now();
+    const { pairs } = await kv.block.list({ keyPrefix: STATE_PREFIX });
+
+    const remaining = Object.fromEntries(
+      pairs
+        .filter(({ value }) => value)
+        .map(({ key, value }) => [
+          key.slice(STATE_PREFIX.length),
+          remainingBudget(value, now),
+        ]),
+    );
+
+    return { newStatus: "ready", signalUpdates: { remaining } };
+  },
+  outputs: {
+    allowed: {
+      default: true,
+      name: "Allowed",
+      description:
+        "Events within the budget for their key, including delayed events " +
+        "once budget became available.",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "The key the budget was tracked for.",
+          },
+          remaining: {
+            type: "number",
+            description:
+              "How many more events the key can pass right now without being limited.",
+          },
+          delayedMillis: {
+            type: "number",
+            description:
+              "How long the event was held back before being allowed, `0` if it passed right away.",
+          },
+        },
+        required: ["key", "remaining", "delayedMillis"],
+      },
+    },
+    limited: {
+      name: "Limited",
+      description: "Events that exceeded the budget for their key.",
+      secondary: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "The key whose budget was exhausted.",
+          },
+          limit: {
+            type: "number",
+            description: "The limit that was exceeded.",
+          },
+          retryAfterSeconds: {
+            type: "number",
+            description: "How long until the key has budget again.",
+          },
+        },
+        required: ["key", "limit", "retryAfterSeconds"],
+      },
+    },
+  },
+  signals: {
+    remaining: {
+      name: "Remaining budget",
+      description:
+        "Remaining budget per key at the time of the last update, as an object " +
+        "mapping each recently used key to the number of events it can still pass.\n\n" +
+        "Keys that have been idle for a full window are dropped, as their budget is full again.",
+    },
+  },
+};
+
+export default rateLimiter;
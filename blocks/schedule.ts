@@ -0,0 +1,292 @@
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
+import { nextCronTime, parseCron, validateTimeZone } from "./cron.ts";
+
+const STATE_KEY = "schedule";
+
+// Upper bound for ticks emitted at once when catching up on all missed ticks.
+const MAX_CATCH_UP_TICKS = 100;
+
+type ScheduleConfig = {
+  cron?: string;
+  timezone?: string;
+  intervalSeconds?: number;
+  catchUp?: "skip" | "once" | "all";
+};
+
+// Identifies the schedule a timer was set for, so that timers set before a
+// config change are ignored instead of scheduling twice.
+const scheduleSignature = ({
+  cron,
+  timezone,
+  intervalSeconds,
+}: ScheduleConfig) => JSON.stringify({ cron, timezone, intervalSeconds });
+
+const nextRunAfter = (config: ScheduleConfig, after: number): number => {
+  if (config.cron) {
+    return nextCronTime(
+      parseCron(config.cron),
+      after,
+      config.timezone || "UTC",
+    );
+  }
+
+  return after + config.intervalSeconds! * 1000;
+};
+
+const validateSchedule = (config: ScheduleConfig) => {
+  if (config.cron) {
+    validateTimeZone(config.timezone || "UTC");
+    // Throws for expressions that never match, like `0 0 31 2 *`.
+    parseCron(config.cron);
+  } else if (!config.intervalSeconds || config.intervalSeconds <= 0) {
+    throw new Error("Either a cron expression or an interval is required");
+  }
+};
+
+// Counts the ticks from `from` up to `until`, stopping at the catch-up limit.
+const countTicks = (config: ScheduleConfig, from: number, until: number) => {
+  let count = 0;
+
+  for (
+    let runAt = from;
+    runAt <= until && count < MAX_CATCH_UP_TICKS;
+    runAt = nextRunAfter(config, runAt)
+  ) {
+    count++;
+  }
+
+  return count;
+};
+
+const emitTick = async (scheduledAt: number, catchUp: boolean) => {
+  await events.emit({ scheduledAt, firedAt: Date.now(), catchUp });
+};
+
+// Handles the ticks that should have fired up to now, starting with
+// `nextRunAt`, and returns the first run time still in the future.
+const catchUpMissedTicks = async (
+  config: ScheduleConfig,
+  nextRunAt: number,
+): Promise<number> => {
+  const now = Date.now();
+  const missed: number[] = [];
+
+  // Fixed intervals can skip straight to the last ticks we may emit.
+  if (!config.cron && nextRunAt <= now) {
+    const intervalMs = config.intervalSeconds! * 1000;
+    const behind = Math.floor((now - nextRunAt) / intervalMs) + 1;
+    nextRunAt += Math.max(0, behind - MAX_CATCH_UP_TICKS) * intervalMs;
+  }
+
+  // Cron run times aren't evenly spaced, so look back from now in growing
+  // windows until one holds as many ticks as we may emit.
+  if (config.cron) {
+    for (let window = 3_600_000; now - window > nextRunAt; window *= 2) {
+      const start = nextRunAfter(config, now - window);
+
+      if (countTicks(config, start, now) >= MAX_CATCH_UP_TICKS) {
+        nextRunAt = start;
+        break;
+      }
+    }
+  }
+
+  while (nextRunAt <= now) {
+    missed.push(nextRunAt);
+    if (missed.length > MAX_CATCH_UP_TICKS) {
+      missed.shift();
+    }
+    nextRunAt = nextRunAfter(config, nextRunAt);
+  }
+
+  if (config.catchUp === "all") {
+    for (const scheduledAt of missed) {
+      await emitTick(scheduledAt, true);
+    }
+  } else if (config.catchUp !== "skip" && missed.length > 0) {
+    await emitTick(missed[missed.length - 1], true);
+  }
+
+  return nextRunAt;
+};
+
+const arm = async (config: ScheduleConfig, nextRunAt: number) => {
+  const signature = scheduleSignature(config);
+  const timerId = await timers.set(
+    Math.max(0, (nextRunAt - Date.now()) / 1000),
+    {
+      description: `Scheduled tick at ${new Date(nextRunAt).toISOString()}`,
+      inputPayload: { scheduledAt: nextRunAt, signature },
+    },
+  );
+
+  await kv.block.set({
+    key: STATE_KEY,
+    value: { signature, nextRunAt, timerId, armed: true },
+  });
+};
+
+const schedule: AppBlock = {
+  name: "Schedule",
+  category: "Control",
+  description:
+    "Emits events on a recurring schedule, defined by a cron expression or a fixed interval.\n\n" +
+    "How it works:\n" +
+    "- The block arms a timer for the next run time\n" +
+    "- When it fires, a tick event is emitted and the timer is armed again\n" +
+    "- Changing the schedule replaces the pending timer, it never runs twice\n\n" +
+    "Missed ticks: While the block is drained no ticks are emitted. When it " +
+    "comes back, the catch-up setting decides what happens to the ticks that were missed.\n\n" +
+    "Common uses:\n" +
+    "- Nightly drift detection or cleanup jobs\n" +
+    "- Periodic health checks and reports\n" +
+    "- Business-hours reminders in a specific time zone",
+  config: {
+    cron: {
+      name: "Cron expression",
+      description:
+        "Standard 5-field cron expression: minute, hour, day of month, month, day of week.\n\n" +
+        "Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*/15`), month and " +
+        "day names (`JAN`, `MON-FRI`) and macros like `@daily` or `@hourly`.\n\n" +
+        "Examples:\n" +
+        "- Every 15 minutes: `*/15 * * * *`\n" +
+        "- Weekdays at 9:00: `0 9 * * MON-FRI`\n" +
+        "- First day of the month at midnight: `0 0 1 * *`\n\n" +
+        "Leave empty to use a fixed interval instead.",
+      type: "string",
+      required: false,
+    },
+    timezone: {
+      name: "Time zone",
+      description:
+        "IANA time zone the cron expression is evaluated in, e.g. `Europe/Berlin` " +
+        "or `America/New_York`. Daylight saving time is taken into account.",
+      type: "string",
+      required: false,
+      default: "UTC",
+    },
+    intervalSeconds: {
+      name: "Interval (seconds)",
+      description:
+        "Fixed time between ticks, used when no cron expression is set. " +
+        "The first tick fires one interval after the schedule is set up.",
+      type: "number",
+      required: false,
+    },
+    catchUp: {
+      name: "Catch-up behavior",
+      description:
+        "What to do with ticks that were missed, e.g. while the block was drained.\n\n" +
+        "- `skip`: Drop missed ticks and continue with the next run time\n" +
+        "- `once`: Emit a single tick for the most recent missed run time\n" +
+        `- \`all\`: Emit a tick for every missed run time (at most ${MAX_CATCH_UP_TICKS})\n\n` +
+        "Catch-up ticks are marked with `catchUp: true`.",
+      type: { type: "string", enum: ["skip", "once", "all"] },
+      required: false,
+      default: "once",
+    },
+  },
+  onSync: async (input) => {
+    const config = input.block.config as ScheduleConfig;
+
+    try {
+      validateSchedule(config);
+    } catch (error) {
+      return {
+        newStatus: "failed",
+        customStatusDescription: (error as Error).message,
+      };
+    }
+
+    const signature = scheduleSignature(config);
+    const { value: state } = await kv.block.get(STATE_KEY);
+
+    if (state?.signature === signature) {
+      // Coming back from being drained, deal with the ticks we missed.
+      if (!state.armed) {
+        await arm(config, await catchUpMissedTicks(config, state.nextRunAt));
+      }
+    } else {
+      // New or changed schedule, replace whatever timer was pending.
+      if (state?.timerId) {
+        await timers.unset(state.timerId);
+      }
+
+      await arm(config, nextRunAfter(config, Date.now()));
+    }
+
+    const { value: current } = await kv.block.get(STATE_KEY);
+
+    return {
+      newStatus: "ready",
+      signalUpdates: { nextRunAt: current.nextRunAt },
+    };
+  },
+  onTimer: async (input) => {
+    const config = input.block.config as ScheduleConfig;
+    const { scheduledAt, signature } = input.timer.payload;
+    const { value: state } = await kv.block.get(STATE_KEY);
+
+    // Skip timers of a previous schedule, or ones that have been replaced.
+    if (
+      !state?.armed ||
+      state.signature !== signature ||
+      state.nextRunAt !== scheduledAt
+    ) {
+      return;
+    }
+
+    await emitTick(scheduledAt, false);
+    await arm(
+      config,
+      await catchUpMissedTicks(config, nextRunAfter(config, scheduledAt)),
+    );
+    await lifecycle.sync();
+  },
+  onDrain: async () => {
+    const { value: state } = await kv.block.get(STATE_KEY);
+
+    // Keep the next run time around, so missed ticks can be detected later.
+    if (state) {
+      await Promise.all([
+        timers.unset(state.timerId),
+        kv.block.set({ key: STATE_KEY, value: { ...state, armed: false } }),
+      ]);
+    }
+
+    return { newStatus: "drained" };
+  },
+  outputs: {
+    default: {
+      type: {
+        type: "object",
+        properties: {
+          scheduledAt: {
+            type: "number",
+            description:
+              "The run time this tick was scheduled for (Unix milliseconds).",
+          },
+          firedAt: {
+            type: "number",
+            description:
+              "When the tick was actually emitted (Unix milliseconds).",
+          },
+          catchUp: {
+            type: "boolean",
+            description:
+              "`true` for ticks emitted late to make up for missed run times.",
+          },
+        },
+        required: ["scheduledAt", "firedAt", "catchUp"],
+      },
+    },
+  },
+  signals: {
+    nextRunAt: {
+      name: "Next run at",
+      description: "When the next tick is scheduled (Unix milliseconds).",
+    },
+  },
+};
+
+export default schedule;
@@ -0,0 +1,232 @@
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
+
+const PERMIT_PREFIX = "permit:";
+const CLAIM_PREFIX = "claim:";
+
+// Claims outlive the queue entry they guard by far, so a stale listing of
+// the queue can never claim an event a second time.
+const CLAIM_TTL_SECONDS = 3600;
+
+const permitKey = (permit: number) => `${PERMIT_PREFIX}${permit}`;
+
+const clearPermit = async (
+  permit: number,
+  eventId: string,
+): Promise<Boolean> => {
+  return await kv.block.set({
+    key: permitKey(permit),
+    value: null,
+    ttl: 0,
+    lock: { id: eventId },
+  });
+};
+
+// Concurrent syncs can list the same waiting event, only the first to claim
+// it may grant it a permit. Returns null if it was claimed already.
+const claimEvent = async (eventId: string) => {
+  const claimId = crypto.randomUUID();
+  const claimed = await kv.block.set({
+    key: `${CLAIM_PREFIX}${eventId}`,
+    value: claimId,
+    ttl: CLAIM_TTL_SECONDS,
+    lock: { id: claimId },
+  });
+
+  return claimed ? claimId : null;
+};
+
+const releaseClaim = async (eventId: string, claimId: string) => {
+  await kv.block.set({
+    key: `${CLAIM_PREFIX}${eventId}`,
+    value: null,
+    ttl: 0,
+    lock: { id: claimId },
+  });
+};
+
+const semaphore: AppBlock = {
+  autoconfirm: true,
+  name: "Semaphore",
+  category: "Control",
+  description:
+    "Allows up to a configured number of events to be processed at the same time, " +
+    "queueing the rest.\n\n" +
+    "How it works:\n" +
+    "- Events are queued in arrival order\n" +
+    "- As long as a permit is free, the eldest waiting event takes it\n" +
+    "- Others wait their turn until one of the holders releases its permit\n\n" +
+    "Release mechanisms:\n" +
+    "- Automatic timeout: Each holder is released after its own timeout period\n" +
+    "- Manual release: Use the `release` input to manually release a permit\n\n" +
+    "vs Mutex: Mutex is a Semaphore with a single permit.\n\n" +
+    'Use cases: "At most 5 deployments at once", connection pools, APIs with ' +
+    "concurrency limits, or any resource that can handle a bounded number of operations.",
+  config: {
+    permits: {
+      name: "Permits",
+      description:
+        "Maximum number of events that can hold the semaphore at the same time.\n\n" +
+        "Lowering this value never revokes permits that are already held - " +
+        "new events simply wait until enough holders release.",
+      type: "number",
+      required: true,
+      default: 1,
+    },
+  },
+
+  onSync: async (input) => {
+    const permits = Math.max(1, Math.floor(input.block.config.permits || 1));
+
+    // Permits are stored as numbered slots, each one locked by its holder.
+    const [{ pairs: holders }, { pairs: waiting }] = await Promise.all([
+      kv.block.list({ keyPrefix: PERMIT_PREFIX }),
+      kv.block.list({ keyPrefix: "evt:" }),
+    ]);
+
+    const taken = new Set(
+      holders
+        .filter(({ value }) => value)
+        .map(({ key }) => Number(key.slice(PERMIT_PREFIX.length))),
+    );
+
+    const free: number[] = [];
+    for (let permit = 0; permit < permits; permit++) {
+      if (!taken.has(permit)) free.push(permit);
+    }
+
+    // Hand out free permits to the eldest waiting events. When we list events,
+    // they are sorted by their creation time.
+    const candidates = waiting.slice(0, free.length);
+
+    const results = await Promise.all(
+      candidates.map(async ({ key, value }, index) => {
+        const { timeout, pendingId } = value;
+        const eventId = key.split(":")[1];
+        const permit = free[index];
+
+        const claimId = await claimEvent(eventId);
+        if (!claimId) {
+          return false;
+        }
+
+        const acquired = await kv.block.set({
+          key: permitKey(permit),
+          value: { eventId, acquiredAt: Date.now() },
+          lock: { id: eventId },
+        });
+
+        // Somebody else took this permit in the meantime, keep waiting.
+        if (!acquired) {
+          await releaseClaim(eventId, claimId);
+          return false;
+        }
+
+        await Promise.all([
+          timers.set(timeout, { inputPayload: { eventId, permit } }),
+          kv.block.set({ key, value: "", ttl: 0 }), // Delete the event from the queue.
+          events.emit(
+            { lockId: eventId, permit },
+            { complete: pendingId, echo: true, parentEventId: eventId },
+          ),
+        ]);
+
+        return true;
+      }),
+    );
+
+    const granted = results.filter(Boolean).length;
+    const permitsInUse = taken.size + granted;
+    const queueDepth = waiting.length - granted;
+
+    return {
+      newStatus: "ready",
+      customStatusDescription:
+        permitsInUse === 0
+          ? "Available"
+          : `${permitsInUse}/${permits} permits in use`,
+      signalUpdates: { permitsInUse, queueDepth },
+    };
+  },
+
+  onTimer: async ({ timer: { payload } }) => {
+    if (await clearPermit(payload.permit, payload.eventId || "")) {
+      await lifecycle.sync();
+    }
+  },
+
+  inputs: {
+    default: {
+      name: "Acquire",
+      description: "Waits for a free permit and holds it for processing",
+      config: {
+        timeout: {
+          name: "Permit timeout",
+          type: "number",
+          description: "Automatic release timeout in seconds.",
+          required: true,
+          default: 60,
+        },
+      },
+      onEvent: async ({ event }) => {
+        const pendingId = await events.createPending({
+          statusDescription: "Waiting for semaphore",
+        });
+        const timeout = event.inputConfig.timeout;
+
+        await kv.block.set({
+          key: `evt:${event.id}`,
+          value: { pendingId, timeout },
+        });
+        await lifecycle.sync();
+      },
+    },
+    release: {
+      name: "Release",
+      description: "Releases the permit held by the acquiring event",
+      config: {},
+      onEvent: async ({ event: { echo } }) => {
+        if (!echo) {
+          return;
+        }
+
+        const { lockId, permit } = echo.body;
+
+        if (await clearPermit(permit, lockId || "")) {
+          await lifecycle.sync();
+        }
+      },
+    },
+  },
+  outputs: {
+    default: {
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          lockId: {
+            type: "string",
+            description:
+              "Unique identifier for the event that acquired the permit",
+          },
+          permit: {
+            type: "number",
+            description: "Number of the permit slot held by the event",
+          },
+        },
+        required: ["lockId", "permit"],
+      },
+    },
+  },
+  signals: {
+    permitsInUse: {
+      name: "Permits in use",
+      description: "Number of events currently holding a permit.",
+    },
+    queueDepth: {
+      name: "Queue depth",
+      description: "Number of events waiting for a permit to become free.",
+    },
+  },
+};
+
+export default semaphore;
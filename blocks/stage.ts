@@ -1,6 +1,55 @@
-import { AppBlock, kv, lifecycle } from "@slflows/sdk/v1";
+import { AppBlock, events, kv, lifecycle } from "@slflows/sdk/v1";
+import { withLock } from "./lock.ts";
 
 const PERSIST_KEY = "persist";
+const LATEST_VERSION_KEY = "latestVersion";
+const versionKey = (version: number) => `version:${version}`;
+
+// Approvals are recorded for the exact staged value, serialized, so that any
+// change to the staged config starts the approval over.
+const APPROVALS_KEY = "approvals";
+
+// Held while the approvals are read and written back.
+const LOCK_KEY = "lock";
+
+const approversFor = (approvals: any, stagedValue: string): any[] =>
+  approvals?.stagedValue === stagedValue ? approvals.approvers : [];
+
+type Change = {
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Lists what changes between two values, descending into nested objects.
+// Arrays and other values are compared as a whole.
+const diffValues = (before: any, after: any, path = ""): Change[] => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return keys.flatMap((key): Change[] => {
+      const keyPath = path ? `${path}.${key}` : key;
+
+      if (!(key in before)) {
+        return [{ path: keyPath, type: "added", after: after[key] }];
+      }
+      if (!(key in after)) {
+        return [{ path: keyPath, type: "removed", before: before[key] }];
+      }
+      return diffValues(before[key], after[key], keyPath);
+    });
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{ path, type: "changed", before, after }];
+};
 
 const stage: AppBlock = {
   name: "Stage",
@@ -18,7 +67,11 @@ const stage: AppBlock = {
     "Workflow:\n" +
     "1. Stage: Configure new value - signal keeps old value, shows `changesPending: true`\n" +
     "2. Preview: Other blocks can see what's staged vs what's live\n" +
-    "3. Commit: Send event to input - signal updates to staged value, `changesPending: false`\n\n" +
+    "3. Commit: Send event to input - signal updates to staged value, `changesPending: false`\n" +
+    "4. Undo: Every commit is recorded as a numbered version that can be rolled back to\n\n" +
+    "Approval mode: With required approvals set, commits happen through the `approve` " +
+    "input once enough approvers have approved the exact staged value, and the default and " +
+    "`rollback` inputs are ignored.\n\n" +
     "Use cases:\n" +
     "- Draft/publish workflows\n" +
     "- Configuration previews before deployment\n" +
@@ -48,6 +101,25 @@ const stage: AppBlock = {
       type: "any",
       required: true,
     },
+    versionHistorySize: {
+      name: "Version history size",
+      description:
+        "How many committed versions to keep for rollback. Older versions are removed.",
+      type: "number",
+      required: false,
+      default: 50,
+    },
+    requiredApprovals: {
+      name: "Required approvals",
+      description:
+        "Number of different approvers needed to commit the staged value.\n\n" +
+        "When set, the staged value is committed through the `approve` input only. " +
+        "Approvals count for the exact value that was staged when they were given, " +
+        "changing the staged config resets them.\n\n" +
+        "Leave empty to commit on any event sent to the default input.",
+      type: "number",
+      required: false,
+    },
   },
   inputs: {
     default: {
@@ -64,38 +136,305 @@ const stage: AppBlock = {
         "- When ready to publish staged content\n" +
         "- After testing staged configurations\n" +
         "- When manual confirmation is provided\n\n" +
-        "Event data: The event payload itself is ignored - any event triggers the commit.",
-      onEvent: async () => {
+        "Event data: The event payload itself is ignored - any event triggers the commit.\n\n" +
+        "Ignored in approval mode, use the `approve` input instead.",
+      onEvent: async (input) => {
+        if (input.block.config.requiredApprovals > 0) {
+          console.warn(
+            "Ignoring persist event, staged values are committed through approvals",
+          );
+          return;
+        }
+
+        await Promise.all([
+          kv.block.set({
+            key: PERSIST_KEY,
+            value: { eventId: input.event.id },
+          }),
+          lifecycle.sync(),
+        ]);
+      },
+    },
+    rollback: {
+      name: "Roll back",
+      description:
+        "Re-publish a previously committed version.\n\n" +
+        "The rollback is recorded as a new version, so it can be undone as well. " +
+        "The staged config is left alone, so `changesPending` shows whether it still " +
+        "differs from the rolled back value.\n\n" +
+        "Ignored in approval mode, as it would commit a value nobody approved.",
+      config: {
+        version: {
+          name: "Version",
+          description:
+            "Number of the version to publish again, see the `version` signal " +
+            "for the number of the live version.",
+          type: "number",
+          required: true,
+        },
+      },
+      onEvent: async (input) => {
+        if (input.block.config.requiredApprovals > 0) {
+          console.warn(
+            "Ignoring rollback event, staged values are committed through approvals",
+          );
+          return;
+        }
+
+        const { version } = input.event.inputConfig;
+        const { value: record } = await kv.block.get(versionKey(version));
+
+        if (!record) {
+          throw new Error(`Version ${version} not found`);
+        }
+
         await Promise.all([
-          kv.block.set({ key: PERSIST_KEY, value: true }),
+          kv.block.set({
+            key: PERSIST_KEY,
+            value: { eventId: input.event.id, version },
+          }),
           lifecycle.sync(),
         ]);
       },
     },
+    approve: {
+      name: "Approve",
+      description:
+        "Approve the staged value. Once the required number of different approvers " +
+        "has approved it, the staged value is committed.\n\n" +
+        "Approving again as the same approver doesn't count twice.",
+      config: {
+        approver: {
+          name: "Approver",
+          description: "Who approves, e.g. a user name or email address.",
+          type: "string",
+          required: true,
+        },
+        comment: {
+          name: "Comment",
+          description: "Optional note to record with the approval.",
+          type: "string",
+          required: false,
+        },
+      },
+      onEvent: async (input) => {
+        const { approver, comment } = input.event.inputConfig;
+        const { currentValue, requiredApprovals } = input.block.config;
+
+        if (!(requiredApprovals > 0)) {
+          throw new Error("Approvals are not enabled for this block");
+        }
+
+        const stagedValue = JSON.stringify(currentValue);
+
+        await withLock(LOCK_KEY, input.event.id, async () => {
+          const { value: approvals } = await kv.block.get(APPROVALS_KEY);
+
+          const approvers = [
+            ...approversFor(approvals, stagedValue).filter(
+              (approval) => approval.approver !== approver,
+            ),
+            {
+              approver,
+              comment: comment ?? null,
+              approvedAt: Date.now(),
+              eventId: input.event.id,
+            },
+          ];
+
+          if (approvers.length < requiredApprovals) {
+            await kv.block.set({
+              key: APPROVALS_KEY,
+              value: { stagedValue, approvers },
+            });
+            return;
+          }
+
+          // Quorum reached, commit exactly the value that was approved.
+          await kv.block.set({
+            key: PERSIST_KEY,
+            value: {
+              eventId: input.event.id,
+              stagedValue,
+              approvedBy: approvers.map((approval) => approval.approver),
+            },
+          });
+          await kv.block.delete([APPROVALS_KEY]);
+        });
+
+        await lifecycle.sync();
+      },
+    },
+    reject: {
+      name: "Reject",
+      description:
+        "Reject the staged value. All approvals given so far are discarded and " +
+        "an event explaining the rejection is emitted.",
+      config: {
+        approver: {
+          name: "Approver",
+          description: "Who rejects, e.g. a user name or email address.",
+          type: "string",
+          required: true,
+        },
+        reason: {
+          name: "Reason",
+          description: "Why the staged value is rejected.",
+          type: "string",
+          required: true,
+        },
+      },
+      onEvent: async (input) => {
+        const { approver, reason } = input.event.inputConfig;
+        const { currentValue } = input.block.config;
+        const approvals = await withLock(LOCK_KEY, input.event.id, async () => {
+          const { value } = await kv.block.get(APPROVALS_KEY);
+          await kv.block.delete([APPROVALS_KEY]);
+          return value;
+        });
+
+        await events.emit(
+          {
+            approver,
+            reason,
+            stagedValue: currentValue,
+            discardedApprovals: approversFor(
+              approvals,
+              JSON.stringify(currentValue),
+            ).map((approval) => approval.approver),
+          },
+          { outputKey: "rejected", parentEventId: input.event.id },
+        );
+        await lifecycle.sync();
+      },
+    },
+  },
+  outputs: {
+    rejected: {
+      name: "Rejected",
+      description: "Emitted when an approver rejects the staged value.",
+      default: true,
+      possiblePrimaryParents: ["reject"],
+      type: {
+        type: "object",
+        properties: {
+          approver: {
+            type: "string",
+            description: "Who rejected the staged value.",
+          },
+          reason: {
+            type: "string",
+            description: "Why the staged value was rejected.",
+          },
+          stagedValue: {
+            description: "The staged value that was rejected.",
+          },
+          discardedApprovals: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Approvers whose approvals of the staged value were discarded.",
+          },
+        },
+        required: ["approver", "reason", "stagedValue", "discardedApprovals"],
+      },
+    },
   },
   onSync: async (input) => {
-    const { value: persist } = await kv.block.get(PERSIST_KEY);
-    const configValue = input.block.config.currentValue;
+    const [{ value: persist }, { value: latestVersion }, { value: approvals }] =
+      await kv.block.getMany([PERSIST_KEY, LATEST_VERSION_KEY, APPROVALS_KEY]);
+    const {
+      currentValue: configValue,
+      versionHistorySize = 50,
+      requiredApprovals,
+    } = input.block.config;
+    const stagedValue = JSON.stringify(configValue);
 
-    if (persist === false) {
-      const exportedValue = JSON.stringify(
-        input.block.lifecycle?.signals?.persistedValue,
-      );
+    // The staged value changed since it was approved, start over.
+    if (approvals && approvals.stagedValue !== stagedValue) {
+      await kv.block.delete([APPROVALS_KEY]);
+    }
+
+    const approvalsSignal = {
+      required: requiredApprovals > 0 ? requiredApprovals : null,
+      approvers: approversFor(approvals, stagedValue),
+    };
+
+    // Never commit a staged value other than the one that was approved.
+    const approvedOtherValue =
+      persist?.stagedValue && persist.stagedValue !== stagedValue;
+    if (approvedOtherValue) {
+      await kv.block.set({ key: PERSIST_KEY, value: false });
+    }
+
+    // In approval mode, nothing is committed before the first approval.
+    const awaitingFirstApproval = persist == null && requiredApprovals > 0;
+
+    // The version to roll back to may have been pruned in the meantime. Never
+    // commit the staged value in its place.
+    const { value: record } = persist?.version
+      ? await kv.block.get(versionKey(persist.version))
+      : { value: null };
+    const rollbackMissing = persist?.version && !record;
+    if (rollbackMissing) {
+      console.warn(`Skipping rollback, version ${persist.version} not found`);
+      await kv.block.set({ key: PERSIST_KEY, value: false });
+    }
+
+    if (
+      persist === false ||
+      approvedOtherValue ||
+      awaitingFirstApproval ||
+      rollbackMissing
+    ) {
+      const exportedValue = input.block.lifecycle?.signals?.persistedValue;
+      const pendingDiff = diffValues(exportedValue, configValue);
 
       return {
         newStatus: "ready",
         signalUpdates: {
-          changesPending:
-            JSON.stringify(configValue) !== JSON.stringify(exportedValue),
+          changesPending: pendingDiff.length > 0,
+          pendingDiff,
+          approvals: approvalsSignal,
         },
       };
     }
 
-    await kv.block.set({ key: PERSIST_KEY, value: false });
+    const value = record ? record.value : configValue;
+
+    // Record the commit as a new version, keeping only the most recent ones.
+    const version = (latestVersion ?? 0) + 1;
+    await kv.block.setMany([
+      {
+        key: versionKey(version),
+        value: {
+          version,
+          value,
+          persistedAt: Date.now(),
+          eventId: persist?.eventId ?? null,
+          rolledBackFrom: persist?.version ?? null,
+          approvedBy: persist?.approvedBy ?? null,
+        },
+      },
+      { key: LATEST_VERSION_KEY, value: version },
+      { key: PERSIST_KEY, value: false },
+    ]);
+
+    if (version > versionHistorySize) {
+      await kv.block.delete([versionKey(version - versionHistorySize)]);
+    }
+
+    const pendingDiff = diffValues(value, configValue);
 
     return {
       newStatus: "ready",
-      signalUpdates: { persistedValue: configValue, changesPending: false },
+      signalUpdates: {
+        persistedValue: value,
+        changesPending: pendingDiff.length > 0,
+        pendingDiff,
+        version,
+        approvals: approvalsSignal,
+      },
     };
   },
   signals: {
@@ -127,6 +466,30 @@ const stage: AppBlock = {
         "- Prevent actions when changes are pending\n\n" +
         "Pattern: Connect to observe blocks to trigger workflows when changes are staged.",
     },
+    pendingDiff: {
+      name: "Pending diff",
+      description:
+        "What would change if the staged config was committed now.\n\n" +
+        "A list of changes, each with a `path` into the value (empty for the value as a whole), " +
+        "a `type` of `added`, `removed` or `changed`, and the `before` and `after` values.\n\n" +
+        "Use for:\n" +
+        "- Reviewing changes before approving them\n" +
+        "- Posting a summary of the change to chat",
+    },
+    version: {
+      name: "Version",
+      description:
+        "Number of the live version. Every commit and rollback creates a new version.\n\n" +
+        "Use with the `rollback` input to undo a commit.",
+    },
+    approvals: {
+      name: "Approvals",
+      description:
+        "Approvals given for the currently staged value, in approval mode.\n\n" +
+        "Contains `required`, the number of approvals needed to commit, and " +
+        "`approvers`, a list with the `approver`, `comment`, `approvedAt` and " +
+        "`eventId` of every approval.",
+    },
   },
 };
 
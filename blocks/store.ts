@@ -0,0 +1,187 @@
+import { AppBlock, kv, lifecycle, timers } from "@slflows/sdk/v1";
+
+const ENTRY_PREFIX = "entry:";
+const entryKey = (key: string) => `${ENTRY_PREFIX}${key}`;
+
+// Lists all entries that haven't expired yet, oldest update first.
+const listEntries = async () => {
+  const now = Date.now();
+  const { pairs } = await kv.block.list({ keyPrefix: ENTRY_PREFIX });
+
+  return pairs
+    .filter(({ value }) => value && !(value.expiresAt && now > value.expiresAt))
+    .map(({ key, value }) => ({ key: key.slice(ENTRY_PREFIX.length), value }))
+    .sort((a, b) => a.value.updatedAt - b.value.updatedAt);
+};
+
+const store: AppBlock = {
+  name: "Store",
+  category: "Data",
+  description:
+    "Keeps a map of values by key and exposes it as signals that other blocks can observe.\n\n" +
+    "How it works:\n" +
+    "- Set: Stores a value under a key, replacing the previous one\n" +
+    "- Delete: Removes a single key\n" +
+    "- Clear: Removes all keys\n\n" +
+    "vs Capture: Capture holds a single value, Store holds one value per key, " +
+    "so a single block can track e.g. the status of every stack.\n\n" +
+    "Reading entries: Refer to a single entry through the `entries` signal, " +
+    "e.g. `entries.my-stack`.",
+  config: {
+    maxEntries: {
+      name: "Maximum entries",
+      description:
+        "Upper limit for the number of keys. When it is exceeded, the entries " +
+        "that were updated longest ago are evicted.\n\n" +
+        "Leave empty for no limit.",
+      type: "number",
+      required: false,
+    },
+  },
+  inputs: {
+    default: {
+      name: "Set",
+      description: "Stores a value under a key, replacing the previous value.",
+      config: {
+        key: {
+          name: "Key",
+          description: "The key to store the value under, e.g. a stack ID.",
+          type: "string",
+          required: true,
+        },
+        value: {
+          name: "Value",
+          description: "The data to store for this key.",
+          type: "any",
+          required: true,
+        },
+        timeoutSeconds: {
+          name: "Timeout in seconds",
+          description:
+            "How long to keep this entry before removing it automatically.\n\n" +
+            "Leave empty for entries that stay until deleted or overwritten.",
+          type: "number",
+          required: false,
+        },
+      },
+      onEvent: async ({ event, block }) => {
+        const { key, value, timeoutSeconds } = event.inputConfig;
+        const { maxEntries } = block.config;
+        const now = Date.now();
+        let expiresAt: number | null = null;
+
+        if (timeoutSeconds !== undefined && timeoutSeconds > 0) {
+          expiresAt = now + timeoutSeconds * 1000;
+
+          // Timers of earlier updates are ignored, as they no longer match.
+          await timers.set(timeoutSeconds, {
+            description: `Remove store entry: ${key}`,
+            inputPayload: { key, eventId: event.id },
+          });
+        }
+
+        await kv.block.set({
+          key: entryKey(key),
+          value: { value, updatedAt: now, updatedBy: event.id, expiresAt },
+        });
+
+        if (maxEntries > 0) {
+          const entries = await listEntries();
+          const evicted = entries.slice(
+            0,
+            Math.max(0, entries.length - maxEntries),
+          );
+
+          if (evicted.length > 0) {
+            await kv.block.delete(evicted.map(({ key }) => entryKey(key)));
+          }
+        }
+
+        await lifecycle.sync();
+      },
+    },
+    delete: {
+      name: "Delete",
+      description:
+        "Removes a key. Deleting a key that doesn't exist does nothing.",
+      config: {
+        key: {
+          name: "Key",
+          description: "The key to remove.",
+          type: "string",
+          required: true,
+        },
+      },
+      onEvent: async ({ event }) => {
+        await kv.block.delete([entryKey(event.inputConfig.key)]);
+        await lifecycle.sync();
+      },
+    },
+    clear: {
+      name: "Clear",
+      description: "Removes all keys.",
+      config: {},
+      onEvent: async () => {
+        const { pairs } = await kv.block.list({ keyPrefix: ENTRY_PREFIX });
+
+        if (pairs.length > 0) {
+          await kv.block.delete(pairs.map(({ key }) => key));
+        }
+
+        await lifecycle.sync();
+      },
+    },
+  },
+  onSync: async () => {
+    const entries = await listEntries();
+
+    return {
+      newStatus: "ready",
+      signalUpdates: {
+        entries: Object.fromEntries(
+          entries.map(({ key, value }) => [key, value.value]),
+        ),
+        metadata: Object.fromEntries(
+          entries.map(({ key, value: { updatedAt, updatedBy, expiresAt } }) => [
+            key,
+            { updatedAt, updatedBy, expiresAt },
+          ]),
+        ),
+        size: entries.length,
+      },
+    };
+  },
+  onTimer: async ({ timer: { payload } }) => {
+    const { key, eventId } = payload;
+    const { value } = await kv.block.get(entryKey(key));
+
+    // Only remove the entry if it hasn't been updated since the timer was set.
+    if (!value || value.updatedBy !== eventId) {
+      return;
+    }
+
+    await kv.block.delete([entryKey(key)]);
+    await lifecycle.sync();
+  },
+  signals: {
+    entries: {
+      name: "Entries",
+      description:
+        "All stored values, by key.\n\n" +
+        "Refer to a single entry by its key to react to changes of that entry only.",
+    },
+    metadata: {
+      name: "Metadata",
+      description:
+        "Details about every entry, by key: `updatedAt` and `expiresAt` " +
+        "(Unix milliseconds, `null` if it doesn't expire) and `updatedBy`, " +
+        "the ID of the event that set it.",
+    },
+    size: {
+      name: "Size",
+      description: "Number of stored entries.",
+    },
+  },
+};
+
+export default store;
@@ -1,11 +1,85 @@
-import { AppBlock, events, messaging, timers } from "@slflows/sdk/v1";
+import { AppBlock, events, kv, messaging, timers } from "@slflows/sdk/v1";
+
+const callKey = (eventId: string) => `call_${eventId}`;
+
+// Finished calls leave a marker behind for as long as a subroutine execution
+// is tracked, so late results can be told apart from calls that were made
+// before calls were recorded at all.
+const FINISHED_TTL_SECONDS = 86400;
+
+const finishCall = (eventId: string) =>
+  kv.block.set({
+    key: callKey(eventId),
+    value: { finished: true },
+    ttl: FINISHED_TTL_SECONDS,
+  });
+
+// Exponential backoff with jitter: the delay doubles with every attempt, up
+// to the configured maximum, and a random half of it is shaved off so that
+// retries of concurrent calls don't all hit the subroutine at once.
+const backoffSeconds = (call: any, attempt: number) => {
+  const delay = Math.min(
+    call.maxBackoffSeconds,
+    call.backoffSeconds * 2 ** (attempt - 1),
+  );
+
+  return delay / 2 + (Math.random() * delay) / 2;
+};
+
+const startAttempt = async (
+  blockId: string,
+  eventId: string,
+  call: any,
+  attempt: number,
+) => {
+  const { subroutineId, payload, pendingEventId, timeoutSeconds } = call;
+
+  // Set a timeout timer
+  const timerId = await timers.set(timeoutSeconds, {
+    pendingEventId,
+    inputPayload: { eventId, attempt },
+  });
+
+  await kv.block.set({
+    key: callKey(eventId),
+    value: { ...call, attempt, timerId },
+  });
+
+  // Send message to the subroutine definition block
+  await messaging.sendToBlocks({
+    body: {
+      blockId,
+      eventId, // Original event ID for correlation
+      payload,
+      pendingEventId, // To resolve when subroutine completes
+      timerId, // To clear the timer when done
+      deadline: Date.now() + timeoutSeconds * 1000, // Drop the call if still queued by then
+    },
+    blockIds: [subroutineId],
+  });
+};
+
+// Waits out the backoff before the next attempt. The timer replaces the
+// attempt's timeout timer, so a late result still finds something to unset.
+const scheduleRetry = async (eventId: string, call: any, attempt: number) => {
+  const timerId = await timers.set(backoffSeconds(call, attempt), {
+    pendingEventId: call.pendingEventId,
+    inputPayload: { eventId, attempt, retry: true },
+  });
+
+  await kv.block.set({
+    key: callKey(eventId),
+    value: { ...call, timerId },
+  });
+};
 
 const subroutineCall: AppBlock = {
   name: "Subroutine call",
   category: "Control",
   description:
     "Call a subroutine defined by a Subroutine Definition block. " +
-    "Pass a payload and receive the result.",
+    "Pass a payload and receive the result. " +
+    "Calls that time out or fail can be retried with exponential backoff.",
   inputs: {
     default: {
       name: "Call subroutine",
@@ -26,39 +100,81 @@ const subroutineCall: AppBlock = {
         timeoutSeconds: {
           name: "Timeout (seconds)",
           description:
-            "Maximum time to wait for subroutine to complete before timing out",
+            "Maximum time to wait for each attempt to complete before timing out",
           type: "number",
           required: false,
           default: 120,
         },
+        maxAttempts: {
+          name: "Maximum attempts",
+          description:
+            "How many times to call the subroutine before giving up. " +
+            "Attempts that time out, or fail when retrying on errors, are " +
+            "retried until this number is reached.",
+          type: "number",
+          required: false,
+          default: 1,
+        },
+        backoffSeconds: {
+          name: "Initial backoff (seconds)",
+          description:
+            "Delay before the first retry. The delay doubles with every " +
+            "further retry, with random jitter of up to half of it.",
+          type: "number",
+          required: false,
+          default: 5,
+        },
+        maxBackoffSeconds: {
+          name: "Maximum backoff (seconds)",
+          description: "Upper limit for the delay between two attempts",
+          type: "number",
+          required: false,
+          default: 300,
+        },
+        retryOnError: {
+          name: "Retry on error",
+          description:
+            "Also retry attempts that the subroutine answers with an error, " +
+            "instead of emitting the error right away",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
       },
       onEvent: async (input) => {
         const config = input.event.inputConfig;
-        const { subroutineId, payload, timeoutSeconds } = config;
+        const {
+          subroutineId,
+          payload,
+          timeoutSeconds,
+          maxAttempts = 1,
+          backoffSeconds = 5,
+          maxBackoffSeconds = 300,
+          retryOnError = false,
+        } = config;
 
         const eventId = input.event.id;
 
+        // A single pending event stays open across all attempts.
         const pendingEventId = await events.createPending({
           statusDescription: "Calling subroutine...",
         });
 
-        // Set a timeout timer
-        const timerId = await timers.set(timeoutSeconds, {
-          pendingEventId,
-          inputPayload: { eventId },
-        });
-
-        // Send message to the subroutine definition block
-        await messaging.sendToBlocks({
-          body: {
-            blockId: input.block.id,
-            eventId, // Original event ID for correlation
+        await startAttempt(
+          input.block.id,
+          eventId,
+          {
+            subroutineId,
             payload,
-            pendingEventId, // To resolve when subroutine completes
-            timerId, // To clear the timer when done
+            timeoutSeconds,
+            maxAttempts,
+            backoffSeconds,
+            maxBackoffSeconds,
+            retryOnError,
+            pendingEventId,
           },
-          blockIds: [subroutineId],
-        });
+          1,
+        );
       },
     },
   },
@@ -75,13 +191,47 @@ const subroutineCall: AppBlock = {
             description: "The result value from the subroutine",
             additionalProperties: true,
           },
+          attempts: {
+            type: "number",
+            description: "How many attempts it took to get the result",
+          },
         },
-        required: ["value"],
+        required: ["value", "attempts"],
+      },
+    },
+    error: {
+      name: "Error",
+      description: "Emitted when the subroutine reports an error",
+      secondary: true,
+      type: {
+        type: "object",
+        properties: {
+          eventId: {
+            type: "string",
+            description: "The original event ID that failed",
+          },
+          error: {
+            type: "object",
+            description: "The error reported by the subroutine",
+            properties: {
+              message: { type: "string" },
+              code: { type: "string" },
+              details: {},
+            },
+            required: ["message"],
+          },
+          attempts: {
+            type: "number",
+            description: "How many attempts were made before giving up",
+          },
+        },
+        required: ["eventId", "error", "attempts"],
       },
     },
     timeout: {
       name: "Timeout",
-      description: "Emitted when the subroutine call times out",
+      description:
+        "Emitted when the last attempt of a subroutine call times out",
       secondary: true,
       type: {
         type: "object",
@@ -90,35 +240,129 @@ const subroutineCall: AppBlock = {
             type: "string",
             description: "The original event ID that timed out",
           },
+          attempts: {
+            type: "number",
+            description: "How many attempts were made before giving up",
+          },
         },
-        required: ["eventId"],
+        required: ["eventId", "attempts"],
       },
     },
   },
 
   onTimer: async (input) => {
-    const { pendingEvent, payload } = input.timer;
+    const { eventId, attempt, retry } = input.timer.payload;
+
+    // Calls made before retries existed time out just like they used to.
+    if (attempt === undefined) {
+      await events.emit(
+        { eventId, attempts: 1 },
+        {
+          complete: input.timer.pendingEvent!.id,
+          outputKey: "timeout",
+          parentEventId: eventId,
+        },
+      );
+      return;
+    }
+
+    const { value: call } = await kv.block.get(callKey(eventId));
+
+    // Skip if the call has completed or moved on to another attempt
+    if (!call || call.attempt !== attempt) {
+      return;
+    }
+
+    // The backoff is over, make the next attempt
+    if (retry) {
+      await startAttempt(input.block.id, eventId, call, attempt + 1);
+      return;
+    }
+
+    // Let the subroutine know that nobody is waiting for this attempt anymore
+    await messaging.sendToBlocks({
+      body: {
+        cancel: true,
+        blockId: input.block.id,
+        eventId,
+        timerId: call.timerId,
+      },
+      blockIds: [call.subroutineId],
+    });
+
+    if (attempt < call.maxAttempts) {
+      await scheduleRetry(eventId, call, attempt);
+      return;
+    }
 
     await Promise.all([
+      finishCall(eventId),
       events.emit(
-        {},
+        { eventId, attempts: attempt },
         {
-          complete: pendingEvent!.id,
+          complete: call.pendingEventId,
           outputKey: "timeout",
-          parentEventId: payload.eventId,
+          parentEventId: eventId,
         },
       ),
     ]);
   },
 
   onInternalMessage: async (input) => {
-    const { result, eventId, pendingEventId, timerId } = input.message.body;
+    const { result, error, eventId, pendingEventId, timerId } =
+      input.message.body;
+    const { value: call } = await kv.block.get(callKey(eventId));
+
+    // Calls made before retries existed have no record, answer them directly.
+    if (!call) {
+      await timers.unset(timerId);
+      await events.emit(
+        error
+          ? { eventId, error, attempts: 1 }
+          : { value: result, attempts: 1 },
+        {
+          complete: pendingEventId,
+          parentEventId: eventId,
+          ...(error ? { outputKey: "error" } : {}),
+        },
+      );
+      return;
+    }
+
+    // A late result for a call that has already completed or timed out
+    if (call.finished) {
+      console.warn(`Dropping result for completed subroutine call ${eventId}`);
+      return;
+    }
+
+    await timers.unset(call.timerId);
+
+    if (error) {
+      if (call.retryOnError && call.attempt < call.maxAttempts) {
+        await scheduleRetry(eventId, call, call.attempt);
+        return;
+      }
+
+      await Promise.all([
+        finishCall(eventId),
+        events.emit(
+          { eventId, error, attempts: call.attempt },
+          {
+            complete: call.pendingEventId,
+            outputKey: "error",
+            parentEventId: eventId,
+          },
+        ),
+      ]);
+      return;
+    }
+
     await Promise.all([
-      timers.unset(timerId),
+      finishCall(eventId),
 
       events.emit(
-        { value: result },
-        { parentEventId: eventId, complete: pendingEventId },
+        { value: result, attempts: call.attempt },
+        { parentEventId: eventId, complete: call.pendingEventId },
       ),
     ]);
   },
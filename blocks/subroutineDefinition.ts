@@ -1,5 +1,149 @@
-import { AppBlock, events, kv, messaging } from "@slflows/sdk/v1";
+import { AppBlock, events, kv, lifecycle, messaging } from "@slflows/sdk/v1";
 import { randomUUID } from "node:crypto";
+import { parseSchema, validateSchema } from "./jsonSchema.ts";
+import { withLock } from "./lock.ts";
+
+const EXECUTION_PREFIX = "execution_";
+const executionKey = (executionId: string) =>
+  `${EXECUTION_PREFIX}${executionId}`;
+
+// Calls waiting for a free execution slot, keyed by the caller's timer which
+// is unique per call attempt. Listing them yields the oldest first.
+const QUEUE_PREFIX = "queue:";
+const queueKey = (timerId: string) => `${QUEUE_PREFIX}${timerId}`;
+
+// Marks queued calls that have been taken from the queue, by their timer.
+const CLAIM_PREFIX = "claim:";
+const claimKey = (timerId: string) => `${CLAIM_PREFIX}${timerId}`;
+
+const ADMISSION_KEY = "admission";
+
+const validationError = (subject: string, errors: string[]) => ({
+  message: `Invalid subroutine ${subject}: ${errors.join(", ")}`,
+  code: "VALIDATION_ERROR",
+  details: { errors },
+});
+
+// Checks a value against one of the configured schemas. A schema that can't
+// be parsed is reported as a validation error too, so the caller still gets
+// a reply instead of waiting out its timeout.
+const schemaErrors = (schema: unknown, value: unknown): string[] => {
+  try {
+    return validateSchema(parseSchema(schema), value);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+};
+
+// Sends the outcome of an execution back to the caller and forgets about it.
+const replyToCaller = async (echo: any, reply: Record<string, any>) => {
+  if (!echo) {
+    throw new Error("This block should not be called directly");
+  }
+
+  const { executionId } = echo.body;
+
+  const { value } = await kv.block.get(executionKey(executionId));
+
+  if (!value) {
+    throw new Error("No execution context found");
+  }
+
+  // The caller gave up on this execution, so nobody is waiting for the reply.
+  if (value.cancelled) {
+    console.warn(
+      `Dropping reply for execution ${executionId}, it was cancelled by the caller`,
+    );
+    await kv.block.delete([executionKey(executionId)]);
+    return;
+  }
+
+  await messaging.sendToBlocks({
+    body: {
+      ...reply,
+      eventId: value.eventId,
+      pendingEventId: value.pendingEventId,
+      timerId: value.timerId,
+    },
+    blockIds: [value.blockId],
+  });
+
+  await kv.block.delete([executionKey(executionId)]);
+};
+
+const listRunning = async () => {
+  const { pairs } = await kv.block.list({ keyPrefix: EXECUTION_PREFIX });
+
+  // Cancelled executions are only kept to drop late results.
+  return pairs.filter(({ value }) => value && !value.cancelled);
+};
+
+const startExecution = async (call: any, executionTtlSeconds: number) => {
+  const { eventId, blockId, payload, pendingEventId, timerId } = call;
+  const executionId = randomUUID();
+
+  await kv.block.set({
+    key: executionKey(executionId),
+    value: { eventId, blockId, pendingEventId, timerId },
+    ttl: executionTtlSeconds,
+  });
+
+  await events.emit(
+    { executionId, input: payload },
+    { echo: true, secondaryParentEventIds: [eventId] },
+  );
+};
+
+// Starts queued calls, oldest first, while there are free execution slots,
+// and refreshes the signals. Calls whose caller has timed out are dropped.
+const startQueued = async (config: Record<string, any>) => {
+  const { maxConcurrency, executionTtlSeconds = 86400 } = config;
+
+  const lockId = randomUUID();
+
+  // Admission is serialized, so concurrent calls and returns never start more
+  // executions than there are free slots.
+  await withLock(ADMISSION_KEY, lockId, async () => {
+    const [running, { pairs }] = await Promise.all([
+      listRunning(),
+      kv.block.list({ keyPrefix: QUEUE_PREFIX }),
+    ]);
+
+    let free = maxConcurrency ? maxConcurrency - running.length : Infinity;
+
+    for (const { key, value } of pairs) {
+      if (free <= 0) {
+        break;
+      }
+
+      // The admission lock can expire during a slow run, so also claim the
+      // call to make sure no other run starts it as well.
+      const claimed =
+        value &&
+        (await kv.block.set({
+          key: claimKey(value.timerId),
+          value: lockId,
+          ttl: executionTtlSeconds,
+          lock: { id: lockId },
+        }));
+
+      if (!claimed) {
+        continue;
+      }
+
+      await kv.block.delete([key]);
+
+      if (value.deadline <= Date.now()) {
+        continue;
+      }
+
+      await startExecution(value, executionTtlSeconds);
+      free--;
+    }
+  });
+
+  await lifecycle.sync();
+};
 
 const subroutineDefinition: AppBlock = {
   name: "Subroutine definition",
@@ -7,7 +151,48 @@ const subroutineDefinition: AppBlock = {
   category: "Control",
   description:
     "Define a subroutine that can be called by Subroutine Call blocks. " +
-    "Exports its block ID as a signal for reference.",
+    "Exports its block ID as a signal for reference. " +
+    "Optional JSON Schemas describe the input and result, calls and results " +
+    "that don't match are rejected with a `VALIDATION_ERROR`. " +
+    "With a concurrency limit, excess calls wait in a queue until earlier executions return.",
+  config: {
+    executionTtlSeconds: {
+      name: "Execution TTL (seconds)",
+      description:
+        "How long to keep track of an execution that hasn't sent a result. " +
+        "Results for executions that are forgotten can no longer be sent back.",
+      type: "number",
+      required: false,
+      default: 86400,
+    },
+    maxConcurrency: {
+      name: "Maximum concurrency",
+      description:
+        "How many executions may run at the same time. Further calls wait " +
+        "in a first-in, first-out queue and start as earlier executions return. " +
+        "Waiting counts against the caller's timeout, calls whose caller has " +
+        "timed out are removed from the queue. Leave empty for no limit.",
+      type: "number",
+      required: false,
+    },
+    inputSchema: {
+      name: "Input schema",
+      description:
+        "JSON Schema the payload of every call must match, as an object or " +
+        "JSON text. Calls with an invalid payload are rejected back to the " +
+        "caller before `On call` is emitted.",
+      type: "any",
+      required: false,
+    },
+    resultSchema: {
+      name: "Result schema",
+      description:
+        "JSON Schema every result value must match, as an object or JSON " +
+        "text. Invalid results are sent to the caller as an error instead.",
+      type: "any",
+      required: false,
+    },
+  },
   inputs: {
     result: {
       name: "Result",
@@ -21,31 +206,50 @@ const subroutineDefinition: AppBlock = {
         },
       },
       onEvent: async (input) => {
-        const config = input.event.inputConfig;
-
-        if (!input.event.echo) {
-          throw new Error("This block should not be called directly");
-        }
-
-        const { executionId } = input.event.echo.body;
-
-        const { value } = await kv.block.get(`execution_${executionId}`);
+        const { value } = input.event.inputConfig;
+        const errors = schemaErrors(input.block.config.resultSchema, value);
 
-        if (!value) {
-          throw new Error("No execution context found");
-        }
+        await replyToCaller(
+          input.event.echo,
+          errors.length > 0
+            ? { error: validationError("result", errors) }
+            : { result: value },
+        );
+        await startQueued(input.block.config);
+      },
+    },
+    error: {
+      name: "Error",
+      description:
+        "Report a failure back to the subroutine caller, which emits it on its error output",
+      config: {
+        message: {
+          name: "Message",
+          description: "Human-readable description of what went wrong",
+          type: "string",
+          required: true,
+        },
+        code: {
+          name: "Code",
+          description:
+            "Machine-readable error code the caller can branch on, e.g. `NOT_FOUND`",
+          type: "string",
+          required: false,
+        },
+        details: {
+          name: "Details",
+          description: "Any additional data describing the error",
+          type: "any",
+          required: false,
+        },
+      },
+      onEvent: async (input) => {
+        const { message, code, details } = input.event.inputConfig;
 
-        await messaging.sendToBlocks({
-          body: {
-            result: config.value,
-            eventId: value.eventId,
-            pendingEventId: value.pendingEventId,
-            timerId: value.timerId,
-          },
-          blockIds: [value.blockId],
+        await replyToCaller(input.event.echo, {
+          error: { message, code, details },
         });
-
-        await kv.block.delete([`execution_${executionId}`]);
+        await startQueued(input.block.config);
       },
     },
   },
@@ -65,36 +269,176 @@ const subroutineDefinition: AppBlock = {
         required: ["input"],
       },
     },
+    cancelled: {
+      name: "Cancelled",
+      description:
+        "Emitted when the caller gives up on an execution, e.g. because it timed out. " +
+        "Results sent for a cancelled execution are dropped.",
+      secondary: true,
+      type: {
+        type: "object",
+        properties: {
+          executionId: {
+            type: "string",
+            description: "The execution the caller gave up on",
+          },
+        },
+        required: ["executionId"],
+      },
+    },
   },
   onSync: async (input) => {
+    let inputSchema, resultSchema;
+
+    try {
+      inputSchema = parseSchema(input.block.config.inputSchema);
+      resultSchema = parseSchema(input.block.config.resultSchema);
+    } catch (error) {
+      return {
+        newStatus: "failed",
+        customStatusDescription: (error as Error).message,
+      };
+    }
+
+    const [running, { pairs: queued }] = await Promise.all([
+      listRunning(),
+      kv.block.list({ keyPrefix: QUEUE_PREFIX }),
+    ]);
+
     return {
       newStatus: "ready",
       signalUpdates: {
         subroutineId: input.block.id,
+        running: running.length,
+        queued: queued.length,
+        inputSchema: inputSchema ?? null,
+        resultSchema: resultSchema ?? null,
       },
     };
   },
   onInternalMessage: async (input) => {
-    const { eventId, payload, blockId, pendingEventId, timerId } =
+    const { eventId, payload, blockId, pendingEventId, timerId, cancel } =
       input.message.body;
+    const { maxConcurrency, executionTtlSeconds = 86400 } = input.block.config;
+
+    if (cancel) {
+      // The call may not have started yet.
+      const dequeued = await withLock(ADMISSION_KEY, randomUUID(), async () => {
+        const { value: queued } = await kv.block.get(queueKey(timerId));
+        if (queued) {
+          await kv.block.delete([queueKey(timerId)]);
+        }
+        return !!queued;
+      });
+
+      if (dequeued) {
+        await lifecycle.sync();
+        return;
+      }
+
+      const { pairs } = await kv.block.list({ keyPrefix: EXECUTION_PREFIX });
+
+      // Executions are identified by the caller's timer, which is unique per attempt.
+      const execution = pairs.find(
+        ({ value }) =>
+          value?.blockId === blockId &&
+          value.eventId === eventId &&
+          value.timerId === timerId,
+      );
+
+      if (!execution || execution.value.cancelled) {
+        return;
+      }
+
+      const executionId = execution.key.slice(EXECUTION_PREFIX.length);
+
+      // Keep the record around for a while, so late results can be dropped.
+      await kv.block.set({
+        key: execution.key,
+        value: { ...execution.value, cancelled: true },
+        ttl: executionTtlSeconds,
+      });
+
+      await events.emit(
+        { executionId },
+        { outputKey: "cancelled", secondaryParentEventIds: [eventId] },
+      );
+      await startQueued(input.block.config);
+      return;
+    }
+
+    const errors = schemaErrors(input.block.config.inputSchema, payload);
 
-    const executionId = randomUUID();
+    if (errors.length > 0) {
+      await messaging.sendToBlocks({
+        body: {
+          error: validationError("input", errors),
+          eventId,
+          pendingEventId,
+          timerId,
+        },
+        blockIds: [blockId],
+      });
+      return;
+    }
+
+    const call = { ...input.message.body, queuedAt: Date.now() };
+
+    if (!maxConcurrency) {
+      await startExecution(call, executionTtlSeconds);
+      await lifecycle.sync();
+      return;
+    }
+
+    const started = await withLock(ADMISSION_KEY, randomUUID(), async () => {
+      const [running, { pairs: queued }] = await Promise.all([
+        listRunning(),
+        kv.block.list({ keyPrefix: QUEUE_PREFIX }),
+      ]);
+
+      // Calls already waiting go first, so the queue stays in order.
+      if (queued.length > 0 || running.length >= maxConcurrency) {
+        await kv.block.set({
+          key: queueKey(timerId),
+          value: call,
+          ttl: call.deadline
+            ? Math.max(1, Math.ceil((call.deadline - Date.now()) / 1000))
+            : executionTtlSeconds,
+        });
+        return false;
+      }
 
-    await kv.block.set({
-      key: `execution_${executionId}`,
-      value: { eventId, blockId, pendingEventId, timerId },
+      await startExecution(call, executionTtlSeconds);
+      return true;
     });
 
-    await events.emit(
-      { executionId, input: payload },
-      { echo: true, secondaryParentEventIds: [eventId] },
-    );
+    if (started) {
+      await lifecycle.sync();
+    } else {
+      await startQueued(input.block.config);
+    }
   },
   signals: {
     subroutineId: {
       name: "Subroutine ID",
       description: "The unique ID of this subroutine block",
     },
+    running: {
+      name: "Running",
+      description: "Number of executions that haven't returned yet",
+    },
+    queued: {
+      name: "Queued",
+      description: "Number of calls waiting for a free execution slot",
+    },
+    inputSchema: {
+      name: "Input schema",
+      description: "JSON Schema the payload of a call must match",
+    },
+    resultSchema: {
+      name: "Result schema",
+      description: "JSON Schema the result of a call must match",
+    },
   },
 };
 
@@ -0,0 +1,327 @@
+import { AppBlock, events, kv, messaging, timers } from "@slflows/sdk/v1";
+import { randomUUID } from "node:crypto";
+import { withLock } from "./lock.ts";
+
+const runKey = (runId: string) => `run:${runId}`;
+const dispatchKey = (timerId: string) => `dispatch:${timerId}`;
+const callKey = (runId: string, index: number) => `call:${runId}:${index}`;
+const claimKey = (runId: string, index: number) => `claim:${runId}:${index}`;
+const outcomePrefix = (runId: string) => `outcome:${runId}:`;
+const finishKey = (runId: string) => `finish:${runId}`;
+const nextKey = (runId: string) => `next:${runId}`;
+const lockKey = (runId: string) => `lock:${runId}`;
+
+// Claims outlive the call they guard by far, so a late timer or reply can
+// never complete an item a second time.
+const CLAIM_TTL_SECONDS = 3600;
+
+// An item can time out and return at the same time. Only whoever claims it
+// first completes it, so the next item is never dispatched twice.
+const claimItem = async (runId: string, index: number) => {
+  const claimId = randomUUID();
+
+  return await kv.block.set({
+    key: claimKey(runId, index),
+    value: claimId,
+    ttl: CLAIM_TTL_SECONDS,
+    lock: { id: claimId },
+  });
+};
+
+// Hands out the index of the next item that hasn't been dispatched yet, or
+// null once every item has been.
+const takeNextIndex = async (runId: string, run: any) =>
+  withLock(lockKey(runId), randomUUID(), async () => {
+    const { value: next } = await kv.block.get(nextKey(runId));
+
+    if (typeof next !== "number" || next >= run.items.length) {
+      return null;
+    }
+
+    await kv.block.set({ key: nextKey(runId), value: next + 1 });
+    return next as number;
+  });
+
+// Sends a single item of a run to the subroutine, using the same protocol as
+// the Subroutine call block. Replies are matched to the item by their timer.
+const dispatchItem = async (
+  blockId: string,
+  runId: string,
+  run: any,
+  index: number,
+) => {
+  const timerId = await timers.set(run.timeoutSeconds, {
+    inputPayload: { runId, index },
+  });
+
+  await kv.block.setMany([
+    { key: dispatchKey(timerId), value: { runId, index } },
+    { key: callKey(runId, index), value: { timerId } },
+  ]);
+
+  await messaging.sendToBlocks({
+    body: {
+      blockId,
+      eventId: runId,
+      payload: run.items[index],
+      pendingEventId: run.pendingEventId,
+      timerId,
+      deadline: Date.now() + run.timeoutSeconds * 1000,
+    },
+    blockIds: [run.subroutineId],
+  });
+};
+
+// Records the outcome of an item and starts the next item that is waiting,
+// so a slot never sits idle. Once every item has an outcome, the aggregated
+// event is emitted exactly once.
+const completeItem = async (
+  blockId: string,
+  runId: string,
+  index: number,
+  outcome: { status: "result" | "error" | "timeout"; value?: any; error?: any },
+) => {
+  const { value: run } = await kv.block.get(runKey(runId));
+
+  if (!run) {
+    return;
+  }
+
+  await kv.block.set({
+    key: `${outcomePrefix(runId)}${index}`,
+    value: outcome,
+  });
+
+  const next = await takeNextIndex(runId, run);
+  if (next !== null) {
+    await dispatchItem(blockId, runId, run, next);
+  }
+
+  const { pairs } = await kv.block.list({ keyPrefix: outcomePrefix(runId) });
+  if (pairs.length < run.items.length) {
+    return;
+  }
+
+  // The last items can complete at the same time, only one of them emits.
+  const finishing = await kv.block.set({
+    key: finishKey(runId),
+    value: index,
+    ttl: run.timeoutSeconds,
+    lock: { id: `${index}` },
+  });
+
+  if (!finishing) {
+    return;
+  }
+
+  const outcomes = new Map(
+    pairs.map(({ key, value }) => [
+      Number(key.slice(outcomePrefix(runId).length)),
+      value,
+    ]),
+  );
+
+  const results = run.items.map(
+    (_: any, i: number) => outcomes.get(i)?.value ?? null,
+  );
+  const errors = [...outcomes]
+    .filter(([, { status }]) => status === "error")
+    .sort(([a], [b]) => a - b)
+    .map(([i, { error }]) => ({ index: i, error }));
+  const timeouts = [...outcomes]
+    .filter(([, { status }]) => status === "timeout")
+    .map(([i]) => i)
+    .sort((a, b) => a - b);
+
+  await Promise.all([
+    kv.block.delete([
+      runKey(runId),
+      nextKey(runId),
+      ...pairs.map(({ key }) => key),
+    ]),
+    events.emit(
+      { results, errors, timeouts },
+      { complete: run.pendingEventId, parentEventId: runId },
+    ),
+  ]);
+};
+
+const subroutineMap: AppBlock = {
+  name: "Subroutine map",
+  category: "Control",
+  description:
+    "Call a subroutine defined by a Subroutine Definition block once for every item of an array.\n\n" +
+    "How it works:\n" +
+    "- Each item is sent to the subroutine as the payload of its own call\n" +
+    "- At most the configured number of calls run at the same time, the " +
+    "next item starts as soon as a call returns\n" +
+    "- Once every call has returned, failed or timed out, a single event " +
+    "with all results is emitted\n\n" +
+    "Common uses:\n" +
+    "- Run the same checks against a list of stacks\n" +
+    "- Fan out API requests without overwhelming the API",
+  inputs: {
+    default: {
+      name: "Map items",
+      description: "Call the subroutine for every item of the array",
+      config: {
+        subroutineId: {
+          name: "Subroutine ID",
+          description: "Reference to the subroutine definition block",
+          type: "string",
+          required: true,
+        },
+        items: {
+          name: "Items",
+          description:
+            "Array of payloads, each one is passed to its own subroutine call",
+          type: { type: "array" },
+          required: true,
+        },
+        concurrency: {
+          name: "Concurrency",
+          description: "Maximum number of subroutine calls running at once",
+          type: "number",
+          required: false,
+          default: 5,
+        },
+        timeoutSeconds: {
+          name: "Timeout (seconds)",
+          description:
+            "Maximum time to wait for each call to complete before timing out",
+          type: "number",
+          required: false,
+          default: 120,
+        },
+      },
+      onEvent: async (input) => {
+        const { subroutineId, items, concurrency, timeoutSeconds } =
+          input.event.inputConfig;
+
+        const runId = input.event.id;
+
+        if (items.length === 0) {
+          await events.emit({ results: [], errors: [], timeouts: [] });
+          return;
+        }
+
+        const pendingEventId = await events.createPending({
+          statusDescription: `Calling subroutine for ${items.length} items...`,
+        });
+
+        const run = {
+          subroutineId,
+          items,
+          concurrency: Math.max(1, Math.floor(concurrency || 1)),
+          timeoutSeconds,
+          pendingEventId,
+        };
+
+        const slots = Math.min(run.concurrency, items.length);
+
+        await kv.block.setMany([
+          { key: runKey(runId), value: run },
+          { key: nextKey(runId), value: slots },
+        ]);
+
+        for (let index = 0; index < slots; index++) {
+          await dispatchItem(input.block.id, runId, run, index);
+        }
+      },
+    },
+  },
+  outputs: {
+    default: {
+      name: "Results",
+      description: "Emitted once every item has been processed",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          results: {
+            type: "array",
+            description:
+              "The result of every call, in the order of the items. " +
+              "Items that failed or timed out have a `null` result.",
+          },
+          errors: {
+            type: "array",
+            description: "Errors reported by the subroutine, by item index",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "number" },
+                error: { type: "object" },
+              },
+              required: ["index", "error"],
+            },
+          },
+          timeouts: {
+            type: "array",
+            description: "Indexes of the items whose calls timed out",
+            items: { type: "number" },
+          },
+        },
+        required: ["results", "errors", "timeouts"],
+      },
+    },
+  },
+
+  onTimer: async (input) => {
+    const { runId, index } = input.timer.payload;
+    const { value: call } = await kv.block.get(callKey(runId, index));
+
+    // The call has returned in the meantime
+    if (!call || !(await claimItem(runId, index))) {
+      return;
+    }
+
+    const { value: run } = await kv.block.get(runKey(runId));
+
+    await kv.block.delete([callKey(runId, index), dispatchKey(call.timerId)]);
+
+    // Let the subroutine know that nobody is waiting for this call anymore
+    if (run) {
+      await messaging.sendToBlocks({
+        body: {
+          cancel: true,
+          blockId: input.block.id,
+          eventId: runId,
+          timerId: call.timerId,
+        },
+        blockIds: [run.subroutineId],
+      });
+    }
+
+    await completeItem(input.block.id, runId, index, { status: "timeout" });
+  },
+
+  onInternalMessage: async (input) => {
+    const { result, error, timerId } = input.message.body;
+    const { value: dispatch } = await kv.block.get(dispatchKey(timerId));
+
+    // A late reply for a call that has already timed out
+    if (!dispatch || !(await claimItem(dispatch.runId, dispatch.index))) {
+      console.warn(`Dropping reply for timed out subroutine call ${timerId}`);
+      return;
+    }
+
+    await Promise.all([
+      timers.unset(timerId),
+      kv.block.delete([
+        dispatchKey(timerId),
+        callKey(dispatch.runId, dispatch.index),
+      ]),
+    ]);
+
+    await completeItem(
+      input.block.id,
+      dispatch.runId,
+      dispatch.index,
+      error ? { status: "error", error } : { status: "result", value: result },
+    );
+  },
+};
+
+export default subroutineMap;
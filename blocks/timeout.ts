@@ -1,4 +1,18 @@
-import { AppBlock, events, kv, timers } from "@slflows/sdk/v1";
+import { AppBlock, events, kv, lifecycle, timers } from "@slflows/sdk/v1";
+
+const TIMER_PREFIX = "timer:";
+const timerKey = (timerId: string) => `${TIMER_PREFIX}${timerId}`;
+
+// Timers started before named timers existed are stored under their bare ID.
+const findTimer = async (uuid: string) => {
+  const { value } = await kv.block.get(timerKey(uuid));
+  if (value) {
+    return { key: timerKey(uuid), value };
+  }
+
+  const { value: legacy } = await kv.block.get(uuid);
+  return legacy?.pendingEventId ? { key: uuid, value: legacy } : null;
+};
 
 const timeout: AppBlock = {
   name: "Timeout",
@@ -9,11 +23,13 @@ const timeout: AppBlock = {
     "1. Start timer: Send event with delay → receives timer ID immediately\n" +
     "2. Wait period: Timer runs in background for specified duration\n" +
     "3. Timeout event: After delay, emits event on timeouts output\n" +
-    "4. Optional cancel: Use timer ID to cancel before timeout occurs\n\n" +
+    "4. Optional cancel: Use timer ID to cancel before timeout occurs\n" +
+    "5. Optional extend: Use timer ID to reschedule a running timer\n\n" +
     "Key features:\n" +
     "- Immediate response: Start input emits timer ID right away\n" +
     "- Delayed execution: Actual timeout event comes later\n" +
     "- Cancellable: Stop timers before they fire using the timer ID\n" +
+    "- Named timers: Starting a timer with the key of a running one restarts it, like a watchdog\n" +
     "- Non-blocking: Multiple timers can run simultaneously\n\n" +
     "Common uses:\n" +
     "- User interaction timeouts: Cancel operations if no user response\n" +
@@ -51,28 +67,58 @@ const timeout: AppBlock = {
           required: true,
           default: 10,
         },
+        key: {
+          name: "Timer key",
+          description:
+            "Optional caller-chosen identifier for the timer, used instead of a random timer ID.\n\n" +
+            "Watchdog behavior:\n" +
+            "- Starting a timer with the key of a running timer restarts it\n" +
+            "- The previous timer is cancelled and never emits a timeout event\n" +
+            "- Keep restarting the timer to keep the timeout from happening\n\n" +
+            "Examples:\n" +
+            "- Heartbeat per service: `outputs.heartbeat.serviceId`\n" +
+            "- Inactivity per session: `outputs.request.sessionId`\n\n" +
+            "Leave empty to get a new random timer ID every time.",
+          type: "string",
+          required: false,
+        },
       },
       onEvent: async ({ event }) => {
-        const seconds = event.inputConfig.seconds;
-        const uuid = crypto.randomUUID();
+        const { seconds, key } = event.inputConfig;
+        const uuid = key || crypto.randomUUID();
+        const startedAt = Date.now();
+        const expiresAt = startedAt + seconds * 1000;
+
+        // Starting a named timer again restarts it.
+        const { value: running } = await kv.block.get(timerKey(uuid));
+        if (running) {
+          await Promise.all([
+            timers.unset(running.timerId),
+            events.cancelPending(running.pendingEventId, "Timer restarted"),
+          ]);
+        }
 
         // Create the pending event for visibility
         const pendingEventId = await events.createPending({
-          event: { startedAt: Date.now(), seconds, timerId: uuid },
+          event: { startedAt, seconds, timerId: uuid },
           outputKey: "timeouts",
           statusDescription: `Pending timeout event for ${seconds} seconds`,
         });
 
         // Set the timer, grab its *internal* ID.
         const timerId = await timers.set(seconds, {
-          inputPayload: uuid,
+          inputPayload: { timerId: uuid, expiresAt },
           pendingEventId,
         });
 
         await Promise.all([
-          kv.block.set({ key: uuid, value: { pendingEventId, timerId } }),
+          kv.block.set({
+            key: timerKey(uuid),
+            value: { pendingEventId, timerId, startedAt, seconds, expiresAt },
+          }),
           events.emit({ timerId: uuid }),
         ]);
+        await lifecycle.sync();
       },
     },
 
@@ -83,8 +129,8 @@ const timeout: AppBlock = {
         "Cancellation behavior:\n" +
         "- Prevents the timeout event from being emitted\n" +
         "- Cleans up timer resources immediately\n" +
-        "- Safe to call even if timer already fired or doesn't exist\n" +
-        "- No output events emitted when cancelling\n\n" +
+        "- No output events emitted when cancelling\n" +
+        "- Unknown or already fired timers are emitted on the not found output\n\n" +
         "Use cases:\n" +
         "- User completes action before timeout (cancel the timeout)\n" +
         "- Error conditions that invalidate the timer\n" +
@@ -104,28 +150,152 @@ const timeout: AppBlock = {
           inputConfig: { timerId: uuid },
         },
       }) => {
-        const {
-          value: { timerId, pendingEventId },
-        } = await kv.block.get(uuid);
+        const found = await findTimer(uuid);
+
+        if (!found) {
+          await events.emit(
+            { timerId: uuid, operation: "cancel" },
+            { outputKey: "notFound" },
+          );
+          return;
+        }
+
+        const { timerId, pendingEventId } = found.value;
 
         await Promise.all([
           timers.unset(timerId),
           events.cancelPending(pendingEventId, "Timer cancelled by user"),
-          kv.block.delete([uuid]),
+          kv.block.delete([found.key]),
         ]);
+        await lifecycle.sync();
+      },
+    },
+
+    extend: {
+      name: "Extend timer",
+      description:
+        "Reschedules a running timer so it fires after a new delay, counted from now.\n\n" +
+        "Extension behavior:\n" +
+        "- The timer keeps its ID and its pending timeout event\n" +
+        "- The new delay replaces whatever time was left\n" +
+        "- Unknown or already fired timers are emitted on the not found output",
+      config: {
+        timerId: {
+          name: "Timer ID",
+          description:
+            "**Timer identifier** received from the start timer output, or the timer key used to start it.",
+          type: "string",
+          required: true,
+        },
+        seconds: {
+          name: "Delay (seconds)",
+          description:
+            "New delay in seconds, counted from now, before the timeout event is emitted.",
+          type: "number",
+          required: true,
+          default: 10,
+        },
+      },
+      onEvent: async ({
+        event: {
+          inputConfig: { timerId: uuid, seconds },
+        },
+      }) => {
+        const found = await findTimer(uuid);
+
+        if (!found) {
+          await events.emit(
+            { timerId: uuid, operation: "extend" },
+            { outputKey: "notFound" },
+          );
+          return;
+        }
+
+        const { value } = found;
+        const now = Date.now();
+        const expiresAt = now + seconds * 1000;
+
+        await timers.unset(value.timerId);
+
+        const timerId = await timers.set(seconds, {
+          inputPayload: { timerId: uuid, expiresAt },
+          pendingEventId: value.pendingEventId,
+        });
+
+        // Extending a timer from before named timers moves it to its new key.
+        if (found.key !== timerKey(uuid)) {
+          await kv.block.delete([found.key]);
+        }
+
+        await kv.block.set({
+          key: timerKey(uuid),
+          value: {
+            startedAt: now,
+            ...value,
+            timerId,
+            seconds,
+            expiresAt,
+          },
+        });
+        await lifecycle.sync();
       },
     },
   },
 
-  onTimer: async ({ timer: { payload: uuid } }) => {
-    const {
-      value: { pendingEventId },
-    } = await kv.block.get(uuid);
+  onTimer: async ({ timer: { payload } }) => {
+    // Timers started before named timers carry their bare ID as the payload.
+    if (typeof payload === "string") {
+      const { value } = await kv.block.get(payload);
+
+      if (value) {
+        await Promise.all([
+          events.completePending(value.pendingEventId),
+          kv.block.delete([payload]),
+        ]);
+      }
+      return;
+    }
+
+    const { timerId: uuid, expiresAt } = payload;
+    const { value } = await kv.block.get(timerKey(uuid));
+
+    // Skip timers that have been cancelled, restarted or extended since.
+    if (!value || value.expiresAt !== expiresAt) {
+      return;
+    }
 
     await Promise.all([
-      events.completePending(pendingEventId),
-      kv.block.delete([uuid]),
+      events.completePending(value.pendingEventId),
+      kv.block.delete([timerKey(uuid)]),
     ]);
+    await lifecycle.sync();
+  },
+
+  onSync: async () => {
+    const now = Date.now();
+    const { pairs } = await kv.block.list({ keyPrefix: TIMER_PREFIX });
+
+    const activeTimers = pairs
+      .filter(({ value }) => value)
+      .map(({ key, value: { startedAt, seconds, expiresAt } }) => ({
+        timerId: key.slice(TIMER_PREFIX.length),
+        startedAt,
+        seconds,
+        expiresAt,
+        remainingSeconds: Math.max(0, Math.ceil((expiresAt - now) / 1000)),
+      }));
+
+    return { newStatus: "ready", signalUpdates: { activeTimers } };
+  },
+
+  signals: {
+    activeTimers: {
+      name: "Active timers",
+      description:
+        "Timers that are currently running, with when they were started, when " +
+        "they will fire (Unix milliseconds) and how many seconds were left at " +
+        "the time of the last update.",
+    },
   },
 
   outputs: {
@@ -140,7 +310,7 @@ const timeout: AppBlock = {
           timerId: {
             type: "string",
             description:
-              "**Unique timer identifier** for cancellation.\n\n**Usage:**\n- Store this ID to cancel the timer later\n- Connect to capture blocks to persist the ID\n- Pass through event chains for conditional cancellation\n- Use in cancel input to stop the timer before timeout\n\n**Characteristics:**\n- Unique for each timer started\n- Required for cancellation operations\n- Remains valid until timer fires or is cancelled",
+              "**Unique timer identifier** for cancellation.\n\n**Usage:**\n- Store this ID to cancel the timer later\n- Connect to capture blocks to persist the ID\n- Pass through event chains for conditional cancellation\n- Use in cancel input to stop the timer before timeout\n\n**Characteristics:**\n- Unique for each timer started, or the timer key if one was given\n- Required for cancellation operations\n- Remains valid until timer fires or is cancelled",
           },
         },
         required: ["timerId"],
@@ -174,6 +344,29 @@ const timeout: AppBlock = {
         required: ["startedAt", "seconds", "timerId"],
       },
     },
+
+    notFound: {
+      name: "Timer not found",
+      description:
+        "**Cancel or extend requests for unknown timers** - the timer never existed, already fired or was cancelled.",
+      secondary: true,
+      type: {
+        type: "object",
+        properties: {
+          timerId: {
+            type: "string",
+            description: "**Timer ID** that couldn't be found.",
+          },
+          operation: {
+            type: "string",
+            enum: ["cancel", "extend"],
+            description:
+              "**The requested operation** that couldn't be applied.",
+          },
+        },
+        required: ["timerId", "operation"],
+      },
+    },
   },
 };
 